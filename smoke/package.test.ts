@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createMock, verifyNoMoreInteractions } from 'vitest-create-mock';
+import 'vitest-create-mock/matchers';
+
+interface Client {
+	get: (path: string) => { status: number };
+	config: { timeout: number };
+}
+
+describe('built package', () => {
+	it('should create mocks', () => {
+		const client = createMock<Client>();
+		client.get.mockReturnValue({ status: 200 });
+
+		expect(client.get('/users')).toEqual({ status: 200 });
+	});
+
+	it('should extend expect with the mock matchers', () => {
+		const client = createMock<Client>();
+		client.get('/users');
+
+		expect(client).toHaveBeenCalledAtPath('get', '/users');
+	});
+
+	it('should mark calls asserted by spy matchers as verified', () => {
+		const client = createMock<Client>();
+		client.get('/users');
+
+		expect(client.get).toHaveBeenCalledWith('/users');
+		verifyNoMoreInteractions(client);
+	});
+
+	it('should serialize mocks in snapshots', () => {
+		const client = createMock<Client>(
+			{ get: () => ({ status: 200 }), config: { timeout: 1000 } },
+			{ name: 'client' },
+		);
+
+		expect(client).toMatchInlineSnapshot(`
+			{
+			  "config": {
+			    "timeout": 1000,
+			  },
+			  "get": "[Function client.get]",
+			}
+		`);
+	});
+});
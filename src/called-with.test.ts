@@ -0,0 +1,198 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { resetMock } from './lifecycle';
+import { createMock } from './mocks';
+
+interface User {
+	id: number;
+	name: string;
+}
+
+interface UserService {
+	getName: (id: number) => string;
+	findUser: (query: { id: number; active?: boolean }) => User | undefined;
+	fetchUser: (id: number) => Promise<User>;
+	format: (user: User, prefix: string) => string;
+}
+
+describe('calledWith', () => {
+	it('should return values per argument set', () => {
+		const mock = createMock<UserService>();
+
+		mock.getName.calledWith(1).mockReturnValue('Alice');
+		mock.getName.calledWith(2).mockReturnValue('Bob');
+
+		expect(mock.getName(1)).toBe('Alice');
+		expect(mock.getName(2)).toBe('Bob');
+		expect(mock.getName(1)).toBe('Alice');
+	});
+
+	it('should record matched calls like any other call', () => {
+		const mock = createMock<UserService>();
+
+		mock.getName.calledWith(1).mockReturnValue('Alice');
+		mock.getName(1);
+
+		expect(mock.getName).toHaveBeenCalledTimes(1);
+		expect(mock.getName).toHaveBeenCalledWith(1);
+		expect(mock.getName).toHaveReturnedWith('Alice');
+	});
+
+	it('should fall back to auto-mocking when no stub matches', () => {
+		const mock = createMock<UserService>();
+
+		mock.getName.calledWith(1).mockReturnValue('Alice');
+
+		expect(typeof mock.getName(3)).toBe('function');
+	});
+
+	it('should fall back to strict mode when no stub matches', () => {
+		const mock = createMock<UserService>({}, { strict: true });
+
+		mock.getName.calledWith(1).mockReturnValue('Alice');
+
+		expect(mock.getName(1)).toBe('Alice');
+		expect(() => mock.getName(3)).toThrow(
+			'Method mock.getName was called without being explicitly stubbed',
+		);
+	});
+
+	it('should fall back to the regular implementation when no stub matches', () => {
+		const mock = createMock<UserService>();
+
+		mock.getName.mockReturnValue('Unknown');
+		mock.getName.calledWith(1).mockReturnValue('Alice');
+
+		expect(mock.getName(1)).toBe('Alice');
+		expect(mock.getName(3)).toBe('Unknown');
+	});
+
+	it('should leave once implementations queued for unmatched calls', () => {
+		const mock = createMock<UserService>();
+
+		mock.getName.mockReturnValueOnce('Once');
+		mock.getName.calledWith(1).mockReturnValue('Alice');
+
+		expect(mock.getName(1)).toBe('Alice');
+		expect(mock.getName(3)).toBe('Once');
+	});
+
+	it('should support stubbing user-provided functions', () => {
+		const mock = createMock<UserService>({
+			getName: (id) => `User ${id}`,
+		});
+
+		mock.getName.calledWith(1).mockReturnValue('Alice');
+
+		expect(mock.getName(1)).toBe('Alice');
+		expect(mock.getName(2)).toBe('User 2');
+		expect(mock.getName).toHaveBeenCalledTimes(2);
+	});
+
+	it('should match with asymmetric matchers', () => {
+		const mock = createMock<UserService>();
+		const alice = { id: 1, name: 'Alice' };
+
+		mock.findUser
+			.calledWith(expect.objectContaining({ id: 1 }))
+			.mockReturnValue(alice);
+		mock.format
+			.calledWith({ id: expect.any(Number), name: 'Bob' }, expect.any(String))
+			.mockReturnValue('formatted');
+
+		expect(mock.findUser({ id: 1, active: true })).toBe(alice);
+		expect(mock.format({ id: 2, name: 'Bob' }, '>')).toBe('formatted');
+		expect(mock.format({ id: 2, name: 'Carol' }, '>')).not.toBe('formatted');
+	});
+
+	it('should compare arguments deeply', () => {
+		const mock = createMock<UserService>();
+
+		mock.findUser.calledWith({ id: 1 }).mockReturnValue(undefined);
+
+		expect(mock.findUser({ id: 1 })).toBeUndefined();
+		expect(mock.findUser({ id: 1, active: true })).toBeDefined();
+	});
+
+	it('should prefer the most recently defined stub', () => {
+		const mock = createMock<UserService>();
+
+		mock.getName.calledWith(expect.any(Number)).mockReturnValue('Anyone');
+		mock.getName.calledWith(1).mockReturnValue('Alice');
+		mock.getName.calledWith(1).mockReturnValue('Alicia');
+
+		expect(mock.getName(1)).toBe('Alicia');
+		expect(mock.getName(2)).toBe('Anyone');
+	});
+
+	it('should support resolved and rejected values', async () => {
+		const mock = createMock<UserService>();
+		const error = new Error('not found');
+
+		mock.fetchUser.calledWith(1).mockResolvedValue({ id: 1, name: 'Alice' });
+		mock.fetchUser.calledWith(2).mockRejectedValue(error);
+
+		await expect(mock.fetchUser(1)).resolves.toEqual({ id: 1, name: 'Alice' });
+		await expect(mock.fetchUser(2)).rejects.toBe(error);
+	});
+
+	it('should support implementations', () => {
+		const mock = createMock<UserService>();
+
+		mock.format
+			.calledWith(expect.anything(), '!')
+			.mockImplementation((user, prefix) => `${prefix}${user.name}`);
+
+		expect(mock.format({ id: 1, name: 'Alice' }, '!')).toBe('!Alice');
+	});
+
+	it('should not leave a throwing implementation installed', () => {
+		const mock = createMock<UserService>();
+
+		mock.getName.mockReturnValue('Unknown');
+		mock.getName.calledWith(1).mockImplementation(() => {
+			throw new Error('boom');
+		});
+
+		expect(() => mock.getName(1)).toThrow('boom');
+		expect(mock.getName(2)).toBe('Unknown');
+		expect(mock.getName).toHaveBeenCalledTimes(2);
+	});
+
+	it('should allow chaining stubs', () => {
+		const mock = createMock<UserService>();
+
+		mock.getName
+			.calledWith(1)
+			.mockReturnValue('Alice')
+			.calledWith(2)
+			.mockReturnValue('Bob');
+
+		expect(mock.getName(1)).toBe('Alice');
+		expect(mock.getName(2)).toBe('Bob');
+	});
+
+	it('should forget stubs on reset', () => {
+		const mock = createMock<UserService>({ getName: () => 'Unknown' });
+
+		mock.getName.calledWith(1).mockReturnValue('Alice');
+		mock.format.calledWith(expect.anything(), '!').mockReturnValue('!');
+
+		mock.getName.mockReset();
+		resetMock(mock);
+
+		expect(mock.getName(1)).toBe('Unknown');
+		expect(mock.format({ id: 1, name: 'Alice' }, '!')).not.toBe('!');
+	});
+
+	it('should type arguments and stubbed values', () => {
+		const mock = createMock<UserService>();
+
+		expectTypeOf(mock.getName.calledWith).parameter(0).toEqualTypeOf<number>();
+		expectTypeOf(mock.getName.calledWith(1).mockReturnValue)
+			.parameter(0)
+			.toEqualTypeOf<string>();
+		expectTypeOf(mock.fetchUser.calledWith(1).mockResolvedValue)
+			.parameter(0)
+			.toEqualTypeOf<User>();
+	});
+});
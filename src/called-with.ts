@@ -0,0 +1,139 @@
+import type { Mock, MockInstance } from 'vitest';
+import { matches } from './matching';
+
+// biome-ignore lint/suspicious/noExplicitAny: generic constraint for any function signature
+type Procedure = (...args: any[]) => any;
+
+/**
+ * Stub returned by `calledWith(...args)`. Each method configures what the function
+ * does when called with matching arguments and returns the function for chaining.
+ */
+export type CalledWithStub<T extends Procedure, R> = {
+	mockImplementation: (implementation: T) => R;
+	mockReturnValue: (value: ReturnType<T>) => R;
+	mockResolvedValue: (value: Awaited<ReturnType<T>>) => R;
+	mockRejectedValue: (error: unknown) => R;
+};
+
+type ArgumentStub = {
+	args: unknown[];
+	implementation: Procedure;
+};
+
+/**
+ * Argument stubs per underlying vi.fn(), most recently defined last.
+ */
+const argumentStubs = new WeakMap<MockInstance, ArgumentStub[]>();
+
+const getArgumentStubs = (fn: MockInstance): ArgumentStub[] => {
+	let stubs = argumentStubs.get(fn);
+
+	if (!stubs) {
+		stubs = [];
+		argumentStubs.set(fn, stubs);
+
+		// mockRestore goes through mockReset, so both forget argument stubs
+		const mockReset = fn.mockReset;
+		fn.mockReset = () => {
+			argumentStubs.delete(fn);
+			return mockReset.call(fn);
+		};
+	}
+
+	return stubs;
+};
+
+/**
+ * Tells whether any argument stub was defined on `fn`.
+ */
+export const hasArgumentStubs = (fn: MockInstance): boolean =>
+	(argumentStubs.get(fn)?.length ?? 0) > 0;
+
+/**
+ * Finds the most recently defined argument stub matching `args`.
+ *
+ * @returns The stub's implementation, or undefined when no stub applies
+ */
+export const findArgumentStub = (
+	fn: MockInstance,
+	args: unknown[],
+): Procedure | undefined => {
+	const stubs = argumentStubs.get(fn);
+
+	if (!stubs) {
+		return undefined;
+	}
+
+	for (let index = stubs.length - 1; index >= 0; index--) {
+		if (matches(stubs[index].args, args)) {
+			return stubs[index].implementation;
+		}
+	}
+
+	return undefined;
+};
+
+/**
+ * Calls `fn` with `implementation` in place of its own, so that Vitest still records
+ * the call, its arguments and its result. Once-implementations are left queued.
+ */
+export const callWithImplementation = (
+	fn: Mock,
+	implementation: Procedure,
+	thisArg: unknown,
+	args: unknown[],
+): unknown => {
+	let result: unknown;
+	let error: unknown;
+	let threw = false;
+
+	// withImplementation does not restore the previous implementation when the
+	// callback throws, so errors are carried out of it instead
+	fn.withImplementation(implementation, () => {
+		try {
+			result = Reflect.apply(fn, thisArg, args);
+		} catch (caught) {
+			error = caught;
+			threw = true;
+		}
+	});
+
+	if (threw) {
+		throw error;
+	}
+
+	return result;
+};
+
+/**
+ * Builds the `calledWith` method exposed on mocked functions.
+ *
+ * @param fn - Underlying vi.fn() the stubs are attached to
+ * @param receiver - Value returned by the stub methods, usually the mocked function
+ */
+export const createCalledWith =
+	<R>(fn: MockInstance, receiver: R) =>
+	(...args: unknown[]): CalledWithStub<Procedure, R> => {
+		const stub = (implementation: Procedure) => {
+			const stubs = getArgumentStubs(fn);
+			// Only a stub for the very same arguments is replaced, broader matchers stay
+			const existing = stubs.findIndex(
+				(candidate) =>
+					matches(candidate.args, args) && matches(args, candidate.args),
+			);
+
+			if (existing !== -1) {
+				stubs.splice(existing, 1);
+			}
+			stubs.push({ args, implementation });
+
+			return receiver;
+		};
+
+		return {
+			mockImplementation: (implementation) => stub(implementation),
+			mockReturnValue: (value) => stub(() => value),
+			mockResolvedValue: (value) => stub(() => Promise.resolve(value)),
+			mockRejectedValue: (error) => stub(() => Promise.reject(error)),
+		};
+	};
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+	configureCreateMock,
+	resetCreateMockConfig,
+	withMockConfig,
+} from './config';
+import { getMockMeta } from './introspection';
+import { createMock } from './mocks';
+import { createSpyMock } from './spy';
+
+interface UserService {
+	getUser: (id: number) => { name: string };
+	then?: unknown;
+	__esModule?: unknown;
+}
+
+describe('Configuration', () => {
+	afterEach(() => {
+		resetCreateMockConfig();
+	});
+
+	describe('configureCreateMock', () => {
+		it('should apply defaults to mocks created afterwards', () => {
+			configureCreateMock({ strict: true });
+
+			const service = createMock<UserService>();
+
+			expect(() => service.getUser(1)).toThrow(
+				'Method mock.getUser was called without being explicitly stubbed',
+			);
+		});
+
+		it('should let per-call options take precedence', () => {
+			configureCreateMock({ strict: true });
+
+			const service = createMock<UserService>({}, { strict: false });
+
+			expect(() => service.getUser(1)).not.toThrow();
+		});
+
+		it('should prefix mock names', () => {
+			configureCreateMock({ namePrefix: 'users:' });
+
+			expect(getMockMeta(createMock<UserService>()).name).toBe('users:mock');
+			expect(
+				getMockMeta(createMock<UserService>({}, { name: 'service' })).name,
+			).toBe('users:service');
+			expect(getMockMeta(createSpyMock({ a: 1 })).name).toBe('users:mock');
+		});
+
+		it('should merge repeated calls', () => {
+			configureCreateMock({ strict: true });
+			configureCreateMock({ namePrefix: 'users:' });
+
+			expect(getMockMeta(createMock<UserService>())).toMatchObject({
+				name: 'users:mock',
+				strict: true,
+			});
+		});
+
+		it('should return undefined from unstubbed calls with autoReturn', () => {
+			configureCreateMock({ autoReturn: 'undefined' });
+
+			const service = createMock<UserService>();
+
+			expect(service.getUser(1)).toBeUndefined();
+
+			service.getUser.mockReturnValue({ name: 'Alice' });
+			expect(service.getUser(1)).toEqual({ name: 'Alice' });
+		});
+
+		it('should extend the ignored properties', () => {
+			configureCreateMock({ ignoredProps: ['__esModule'] });
+
+			const service = createMock<UserService>({}, { ignoredProps: ['then'] });
+
+			expect(service.__esModule).toBeUndefined();
+			expect(service.then).toBeUndefined();
+			expect(createMock<UserService>().__esModule).toBeUndefined();
+		});
+	});
+
+	describe('withMockConfig', () => {
+		it('should apply overrides within the block only', () => {
+			const strict = withMockConfig({ strict: true }, () =>
+				createMock<UserService>(),
+			);
+			const loose = createMock<UserService>();
+
+			expect(() => strict.getUser(1)).toThrow();
+			expect(() => loose.getUser(1)).not.toThrow();
+		});
+
+		it('should restore the defaults when the block throws', () => {
+			configureCreateMock({ namePrefix: 'users:' });
+
+			expect(() =>
+				withMockConfig({ namePrefix: 'other:' }, () => {
+					throw new Error('boom');
+				}),
+			).toThrow('boom');
+			expect(getMockMeta(createMock<UserService>()).name).toBe('users:mock');
+		});
+
+		it('should restore the defaults as soon as an async block returns', async () => {
+			const pending = withMockConfig({ namePrefix: 'async:' }, async () => {
+				const before = createMock<UserService>();
+				await Promise.resolve();
+				return [before, createMock<UserService>()];
+			});
+
+			expect(getMockMeta(createMock<UserService>()).name).toBe('mock');
+
+			const [before, after] = await pending;
+			expect(getMockMeta(before).name).toBe('async:mock');
+			expect(getMockMeta(after).name).toBe('mock');
+		});
+	});
+});
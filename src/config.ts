@@ -0,0 +1,100 @@
+import type { MockOptions } from './mocks';
+
+/**
+ * Defaults applied to every mock created afterwards, see configureCreateMock.
+ */
+export type CreateMockConfig = Omit<
+	MockOptions,
+	'name' | 'callable' | 'expect'
+> & {
+	/** Prepended to the name of every root mock, e.g. `'users:'` gives `users:mock` */
+	namePrefix?: string;
+};
+
+let config: CreateMockConfig = {};
+
+/**
+ * Merges two configurations. Ignored properties add up, everything else is replaced
+ * unless the override is undefined.
+ */
+const mergeConfig = <T extends CreateMockConfig>(
+	base: CreateMockConfig,
+	overrides: T,
+): T => ({
+	...base,
+	...(Object.fromEntries(
+		Object.entries(overrides).filter(([, value]) => value !== undefined),
+	) as T),
+	ignoredProps: [
+		...(base.ignoredProps ?? []),
+		...(overrides.ignoredProps ?? []),
+	],
+});
+
+/**
+ * Fills per-call options with the configured defaults.
+ */
+export const applyMockConfig = (options: MockOptions): MockOptions =>
+	mergeConfig(config, options);
+
+/**
+ * Prepends the configured prefix to the name of a root mock.
+ */
+export const prefixMockName = (name: string): string =>
+	`${config.namePrefix ?? ''}${name}`;
+
+/**
+ * Sets defaults for every mock created afterwards. Options passed to `createMock`
+ * take precedence, except `ignoredProps`, which add up. Repeated calls are merged.
+ *
+ * @param overrides - Default options, and a prefix for mock names
+ *
+ * @example
+ * ```typescript
+ * // vitest.setup.ts
+ * configureCreateMock({ strict: true, ignoredProps: ['__esModule'] });
+ *
+ * // users.test.ts
+ * configureCreateMock({ namePrefix: 'users:' });
+ * ```
+ */
+export const configureCreateMock = (overrides: CreateMockConfig): void => {
+	config = mergeConfig(config, overrides);
+};
+
+/**
+ * Forgets everything set by configureCreateMock.
+ */
+export const resetCreateMockConfig = (): void => {
+	config = {};
+};
+
+/**
+ * Runs `fn` with `overrides` merged into the defaults, then puts the previous defaults
+ * back, also when `fn` throws. Mocks created inside keep the configuration they were
+ * created with. The defaults are restored as soon as `fn` returns, so an async `fn`
+ * only applies the overrides until its first `await`: code running meanwhile must not
+ * see them.
+ *
+ * @param overrides - Default options for mocks created by `fn`
+ * @param fn - Code to run with the overrides
+ * @returns What `fn` returns
+ *
+ * @example
+ * ```typescript
+ * const legacy = withMockConfig({ strict: false }, () => createMock<LegacyApi>());
+ * ```
+ */
+export const withMockConfig = <R>(
+	overrides: CreateMockConfig,
+	fn: () => R,
+): R => {
+	const previous = config;
+	config = mergeConfig(config, overrides);
+
+	try {
+		return fn();
+	} finally {
+		config = previous;
+	}
+};
@@ -0,0 +1,158 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import type { DeferredCall } from './deferred';
+import { isDeepMock } from './introspection';
+import { createMock, type DeepMocked } from './mocks';
+
+interface User {
+	id: number;
+	profile: { getName: () => string };
+}
+
+interface UserApi {
+	fetchUser: (id: number) => Promise<User>;
+}
+
+class UserService {
+	private latest = 0;
+	current?: User;
+
+	constructor(private readonly api: UserApi) {}
+
+	async load(id: number) {
+		const request = ++this.latest;
+		const user = await this.api.fetchUser(id);
+
+		// Responses to outdated requests are dropped
+		if (request === this.latest) {
+			this.current = user;
+		}
+	}
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('mockDeferred', () => {
+	it('controls when and in which order calls settle', async () => {
+		const api = createMock<UserApi>();
+		const service = new UserService(api);
+		const deferred = api.fetchUser.mockDeferred();
+
+		const first = service.load(1);
+		const second = service.load(2);
+		const [firstCall, secondCall] = [
+			await deferred.awaitCalled(),
+			await deferred.awaitCalled(),
+		];
+
+		expect(firstCall.args).toEqual([1]);
+		expect(secondCall.args).toEqual([2]);
+
+		secondCall.resolve({ id: 2 } as User);
+		await second;
+		firstCall.resolve({ id: 1 } as User);
+		await first;
+
+		expect(service.current?.id).toBe(2);
+		expect(deferred.calls).toEqual([firstCall, secondCall]);
+	});
+
+	it('waits for calls that have not happened yet', async () => {
+		const api = createMock<UserApi>();
+		const deferred = api.fetchUser.mockDeferred();
+		const called = deferred.awaitCalled();
+
+		const result = api.fetchUser(3);
+		const call = await called;
+
+		expect(call.pending).toBe(true);
+		call.reject(new Error('timeout'));
+
+		expect(call.pending).toBe(false);
+		await expect(result).rejects.toThrow('timeout');
+	});
+
+	it('keeps calls pending until settled', async () => {
+		const api = createMock<UserApi>();
+		api.fetchUser.mockDeferred();
+		let settled = false;
+
+		void api.fetchUser(1).then(() => {
+			settled = true;
+		});
+		await flush();
+
+		expect(settled).toBe(false);
+	});
+
+	it('resolves with the auto-mocked deep mock without a value', async () => {
+		const api = createMock<UserApi>({}, { strict: true });
+		const deferred = api.fetchUser.mockDeferred();
+
+		const result = api.fetchUser(1);
+		const call = await deferred.awaitCalled();
+		call.resolve();
+		const user = await result;
+
+		expect(isDeepMock(user)).toBe(true);
+		expect(isDeepMock(user.profile)).toBe(true);
+	});
+
+	it('works on user-provided functions', async () => {
+		const api = createMock<UserApi>({
+			fetchUser: async (id: number) => ({ id }) as User,
+		});
+		const deferred = api.fetchUser.mockDeferred();
+
+		const result = api.fetchUser(5);
+		(await deferred.awaitCalled()).resolve({ id: 6 } as User);
+
+		expect(await result).toEqual({ id: 6 });
+	});
+
+	it('refuses to settle a call twice', async () => {
+		const api = createMock<UserApi>({}, { name: 'api' });
+		const deferred = api.fetchUser.mockDeferred();
+
+		void api.fetchUser(1);
+		const call = await deferred.awaitCalled();
+		call.resolve();
+
+		expect(() => call.reject(new Error('late'))).toThrow(
+			'Deferred call of api.fetchUser was already settled',
+		);
+	});
+});
+
+describe('mockDeferredOnce', () => {
+	it('returns the handle of the next call upfront', async () => {
+		const api = createMock<UserApi>();
+		api.fetchUser.mockResolvedValue({ id: 0 } as User);
+		const call = api.fetchUser.mockDeferredOnce();
+
+		expect(call.args).toBeUndefined();
+
+		const deferred = api.fetchUser(1);
+		expect(await call.awaitCalled()).toEqual([1]);
+		expect(await api.fetchUser(2)).toEqual({ id: 0 });
+
+		call.resolve({ id: 1 } as User);
+		expect(await deferred).toEqual({ id: 1 });
+	});
+
+	it('can be settled before the call', async () => {
+		const api = createMock<UserApi>();
+		const call = api.fetchUser.mockDeferredOnce();
+
+		call.reject(new Error('offline'));
+
+		await expect(api.fetchUser(1)).rejects.toThrow('offline');
+	});
+
+	it('is typed from the mocked function', () => {
+		const api = createMock<UserApi>();
+
+		expectTypeOf(api.fetchUser.mockDeferredOnce()).toEqualTypeOf<
+			DeferredCall<User | DeepMocked<User>, [id: number]>
+		>();
+	});
+});
@@ -0,0 +1,156 @@
+import type { Mock } from 'vitest';
+
+/**
+ * Handle on a call of a mocked function stubbed with `mockDeferred` or
+ * `mockDeferredOnce`: the promise the call returns stays pending until the test
+ * settles it.
+ */
+export type DeferredCall<V, A extends unknown[] = unknown[]> = {
+	/** Arguments of the call, undefined until it happens */
+	readonly args: A | undefined;
+	/** Whether the promise returned by the call is still unsettled */
+	readonly pending: boolean;
+	/**
+	 * Resolves the promise returned by the call with `value`, or without one with the
+	 * deep mock an auto-mocked call returns. May be called before the call happens.
+	 */
+	resolve: (value?: V) => void;
+	/** Rejects the promise returned by the call. May be called before the call happens */
+	reject: (reason?: unknown) => void;
+	/** Waits for the call to happen and returns its arguments */
+	awaitCalled: () => Promise<A>;
+};
+
+/**
+ * Handles on every call of a mocked function stubbed with `mockDeferred`.
+ */
+export type DeferredCalls<V, A extends unknown[] = unknown[]> = {
+	/** Handles of the calls made since `mockDeferred`, oldest first */
+	readonly calls: DeferredCall<V, A>[];
+	/**
+	 * Waits for the next call not yet returned by awaitCalled, in call order, and
+	 * returns its handle.
+	 */
+	awaitCalled: () => Promise<DeferredCall<V, A>>;
+};
+
+/**
+ * Names of the deferred helpers on mocked functions.
+ */
+export const deferredHelperNames = new Set([
+	'mockDeferred',
+	'mockDeferredOnce',
+]);
+
+type DeferredCallControl = {
+	call: DeferredCall<unknown>;
+	promise: Promise<unknown>;
+	markCalled: (args: unknown[]) => void;
+};
+
+/**
+ * Creates the promise a deferred call returns, with the handle that settles it.
+ *
+ * @param name - Name of the mocked function, for error messages
+ * @param autoValue - Returns the deep mock `resolve()` without a value resolves with
+ */
+const createDeferredCall = (
+	name: string,
+	autoValue: () => unknown,
+): DeferredCallControl => {
+	let resolvePromise: (value: unknown) => void = () => {};
+	let rejectPromise: (reason: unknown) => void = () => {};
+	let markCalled: (args: unknown[]) => void = () => {};
+	let args: unknown[] | undefined;
+	let pending = true;
+
+	const promise = new Promise((resolve, reject) => {
+		resolvePromise = resolve;
+		rejectPromise = reject;
+	});
+	// Rejecting before the call must not be reported as an unhandled rejection
+	promise.catch(() => {});
+
+	const called = new Promise<unknown[]>((resolve) => {
+		markCalled = (callArgs) => {
+			args = callArgs;
+			resolve(callArgs);
+		};
+	});
+
+	const settle = (settler: () => void) => {
+		if (!pending) {
+			throw new Error(`Deferred call of ${name} was already settled`);
+		}
+
+		pending = false;
+		settler();
+	};
+
+	const call: DeferredCall<unknown> = {
+		get args() {
+			return args;
+		},
+		get pending() {
+			return pending;
+		},
+		resolve: (...value) =>
+			settle(() => resolvePromise(value.length > 0 ? value[0] : autoValue())),
+		reject: (reason) => settle(() => rejectPromise(reason)),
+		awaitCalled: () => called,
+	};
+
+	return { call, promise, markCalled };
+};
+
+/**
+ * Creates a deferred helper of a mocked function.
+ *
+ * @param helper - One of deferredHelperNames
+ * @param name - Name of the mocked function, for error messages
+ * @param fn - The underlying vi.fn()
+ * @param autoValue - Returns the deep mock `resolve()` without a value resolves with
+ */
+export const createDeferredHelper =
+	(helper: string, name: string, fn: Mock, autoValue: () => unknown) =>
+	(): DeferredCall<unknown> | DeferredCalls<unknown> => {
+		if (helper === 'mockDeferredOnce') {
+			const { call, promise, markCalled } = createDeferredCall(name, autoValue);
+
+			fn.mockImplementationOnce((...args: unknown[]) => {
+				markCalled(args);
+				return promise;
+			});
+
+			return call;
+		}
+
+		const calls: DeferredCall<unknown>[] = [];
+		const waiting: ((call: DeferredCall<unknown>) => void)[] = [];
+		let awaited = 0;
+
+		fn.mockImplementation((...args: unknown[]) => {
+			const { call, promise, markCalled } = createDeferredCall(name, autoValue);
+
+			markCalled(args);
+			calls.push(call);
+			waiting.shift()?.(call);
+
+			return promise;
+		});
+
+		const deferred: DeferredCalls<unknown> = {
+			calls,
+			awaitCalled: () => {
+				const index = awaited++;
+
+				return index < calls.length
+					? Promise.resolve(calls[index])
+					: new Promise((resolve) => {
+							waiting.push(resolve);
+						});
+			},
+		};
+
+		return deferred;
+	};
@@ -0,0 +1,167 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { expectCall, verifyExpectations } from './expectations';
+import { clearMock, resetMock } from './lifecycle';
+import { createMock, type MockOptions } from './mocks';
+
+interface User {
+	id: number;
+	name: string;
+}
+
+interface Repo {
+	save: (user: User) => Promise<void>;
+	delete: (id: number) => Promise<void>;
+	audit: {
+		log: (message: string) => void;
+	};
+	size: number;
+}
+
+const user = { id: 1, name: 'Ada' };
+
+describe('MockOptions.expect', () => {
+	it('passes when every expectation is met', async () => {
+		const repo = createMock<Repo>(
+			{},
+			{
+				expect: {
+					save: { times: 1, with: [expect.any(Object)] },
+					delete: { times: 0 },
+					audit: { log: {} },
+				},
+			},
+		);
+
+		await repo.save(user);
+		repo.audit.log('saved');
+
+		expect(() => verifyExpectations(repo)).not.toThrow();
+	});
+
+	it('summarizes unmet expectations across the tree', async () => {
+		const repo = createMock<Repo>(
+			{},
+			{
+				name: 'repo',
+				expect: {
+					save: { times: 1, with: [expect.objectContaining({ id: 2 })] },
+					delete: { times: 0 },
+					audit: { log: {} },
+				},
+			},
+		);
+
+		await repo.save(user);
+		await repo.delete(1);
+
+		expect(() => verifyExpectations(repo)).toThrow(
+			[
+				'Expected mock expectations to be met, but 3 expectations were not:',
+				'  repo.save: expected 1 call with (ObjectContaining), received 0',
+				'    1. repo.save({ id: 1, name: "Ada" })',
+				'  repo.delete: expected 0 calls, received 1',
+				'    1. repo.delete(1)',
+				'  repo.audit.log: expected at least 1 call, received 0',
+			].join('\n'),
+		);
+	});
+
+	it('works on strict mocks and classes', () => {
+		class Mailer {
+			send(_to: string) {}
+		}
+
+		const repo = createMock<Repo>(
+			{},
+			{ strict: true, expect: { audit: { log: { times: 1 } } } },
+		);
+		const mailer = createMock(Mailer, {}, { expect: { send: { times: 0 } } });
+
+		repo.audit.log.mockReturnValue(undefined);
+		repo.audit.log('saved');
+
+		expect(() => verifyExpectations(repo, mailer)).not.toThrow();
+	});
+
+	it('refuses expectations on values that are not mocks', () => {
+		expect(() =>
+			createMock<Repo>(
+				{ size: 1 },
+				{ name: 'repo', expect: { size: {} } as never },
+			),
+		).toThrow('Cannot expect calls of repo.size: it is not a mock');
+	});
+
+	it('keeps expectations through clearMock and resetMock', () => {
+		const repo = createMock<Repo>({}, { expect: { delete: { times: 1 } } });
+
+		repo.delete(1);
+		clearMock(repo);
+		resetMock(repo);
+
+		expect(() => verifyExpectations(repo)).toThrow(
+			'mock.delete: expected 1 call, received 0',
+		);
+	});
+
+	it('is typed from the mocked type', () => {
+		type Expectations = NonNullable<MockOptions<Repo>['expect']>;
+
+		expectTypeOf<NonNullable<Expectations['save']>['with']>().toEqualTypeOf<
+			[user: User] | undefined
+		>();
+		expectTypeOf<
+			keyof NonNullable<Expectations['audit']>
+		>().toEqualTypeOf<'log'>();
+	});
+});
+
+describe('expectCall', () => {
+	it('expects at least one call by default', () => {
+		const repo = createMock<Repo>({}, { name: 'repo' });
+		expectCall(repo.delete);
+
+		expect(() => verifyExpectations(repo)).toThrow(
+			'repo.delete: expected at least 1 call, received 0',
+		);
+
+		repo.delete(1);
+		expect(() => verifyExpectations(repo)).not.toThrow();
+	});
+
+	it('refines the number of calls and their arguments', async () => {
+		const repo = createMock<Repo>({}, { name: 'repo' });
+		expectCall(repo.save)
+			.once()
+			.with(expect.objectContaining({ id: 1 }));
+		expectCall(repo.delete).never();
+		expectCall(repo.audit.log).times(2);
+
+		await repo.save(user);
+		await repo.save({ id: 2, name: 'Grace' });
+		repo.audit.log('a');
+		repo.audit.log('b');
+
+		expect(() => verifyExpectations(repo)).not.toThrow();
+	});
+
+	it('is forgotten by resetMock', () => {
+		const repo = createMock<Repo>();
+		expectCall(repo.delete);
+
+		resetMock(repo);
+
+		expect(() => verifyExpectations(repo)).not.toThrow();
+	});
+
+	it('refuses values that are not mocked functions', () => {
+		const repo = createMock<Repo>({}, { name: 'repo' });
+
+		expect(() => expectCall(repo as never)).toThrow(
+			'Cannot expect calls of repo: it is not a mocked function',
+		);
+		expect(() => expectCall((() => {}) as never)).toThrow(
+			'expectCall expects a mocked function created by createMock, received function',
+		);
+	});
+});
@@ -0,0 +1,219 @@
+import type { Mock } from 'vitest';
+import { formatCall, plural } from './format';
+import { matches } from './matching';
+import {
+	type CallExpectation,
+	getMockFn,
+	getMockState,
+	type MockState,
+	walkMockStates,
+} from './state';
+
+// biome-ignore lint/suspicious/noExplicitAny: generic constraint for any function signature
+type Procedure = (...args: any[]) => any;
+
+/**
+ * Expected calls of a mocked function, see `MockOptions.expect`.
+ */
+export type CallExpectationOptions<A extends unknown[] = unknown[]> = {
+	/** Exact number of matching calls (default: at least one) */
+	times?: number;
+	/** Arguments the calls must match, may be asymmetric matchers (default: any) */
+	with?: A;
+};
+
+/**
+ * Expected calls per member of T: call expectations for methods, nested expectations
+ * for objects, see `MockOptions.expect`.
+ */
+export type MockExpectations<T> = {
+	[K in keyof T]?: NonNullable<T[K]> extends Procedure
+		? CallExpectationOptions<Parameters<NonNullable<T[K]>>>
+		: NonNullable<T[K]> extends object
+			? MockExpectations<NonNullable<T[K]>>
+			: never;
+};
+
+/**
+ * Fluent builder returned by expectCall. Each method refines the expectation and
+ * returns the builder.
+ */
+export type CallExpectationBuilder<T extends Procedure> = {
+	/** Expects exactly `count` matching calls */
+	times: (count: number) => CallExpectationBuilder<T>;
+	/** Expects exactly one matching call */
+	once: () => CallExpectationBuilder<T>;
+	/** Expects no matching call */
+	never: () => CallExpectationBuilder<T>;
+	/** Only counts calls whose arguments match, asymmetric matchers allowed */
+	with: (...args: Parameters<T>) => CallExpectationBuilder<T>;
+};
+
+const callExpectationKeys = new Set(['times', 'with']);
+
+/**
+ * Tells call expectations apart from nested expectations: only `times` and `with`.
+ * An empty object expects at least one call.
+ */
+export const isCallExpectation = (
+	value: object,
+): value is CallExpectationOptions =>
+	Object.keys(value).every((key) => callExpectationKeys.has(key));
+
+/**
+ * Adds an expectation to a mocked function.
+ */
+export const addExpectation = (
+	fn: unknown,
+	options: CallExpectationOptions,
+	upfront: boolean,
+): CallExpectation => {
+	const state = getMockState(fn);
+
+	if (!state) {
+		throw new TypeError(
+			`expectCall expects a mocked function created by createMock, received ${typeof fn}`,
+		);
+	}
+
+	if (!state.callable) {
+		throw new TypeError(
+			`Cannot expect calls of ${state.name}: it is not a mocked function`,
+		);
+	}
+
+	const expectation = { ...options, upfront };
+	state.expectations = [...(state.expectations ?? []), expectation];
+
+	return expectation;
+};
+
+/**
+ * Forgets the expectations declared with expectCall in a mock tree, keeping those
+ * declared through `MockOptions.expect`.
+ */
+export const forgetTestExpectations = (mock: unknown) => {
+	walkMockStates(mock, (state) => {
+		state.expectations = state.expectations?.filter(
+			(expectation) => expectation.upfront,
+		);
+	});
+};
+
+/**
+ * Describes an unmet expectation, with the calls the function received.
+ */
+const describeUnmet = (
+	state: MockState,
+	expectation: CallExpectation,
+): string[] | undefined => {
+	const calls = (getMockFn(state) as Mock).mock.calls;
+	const matching = expectation.with
+		? calls.filter((args) => matches(expectation.with as unknown[], args))
+		: calls;
+	const met =
+		expectation.times === undefined
+			? matching.length > 0
+			: matching.length === expectation.times;
+
+	if (met) {
+		return undefined;
+	}
+
+	const expected =
+		expectation.times === undefined
+			? 'at least 1 call'
+			: plural(expectation.times, 'call');
+	const args = expectation.with
+		? ` with ${formatCall('', expectation.with)}`
+		: '';
+
+	return [
+		`  ${state.name}: expected ${expected}${args}, received ${matching.length}`,
+		...calls.map(
+			(callArgs, index) =>
+				`    ${index + 1}. ${formatCall(state.name, callArgs)}`,
+		),
+	];
+};
+
+/**
+ * Declares an expectation on a mocked function, checked by verifyExpectations (and
+ * after the test by the setup entry). Without refinement, it expects at least one
+ * call. Expectations declared this way are forgotten by `resetMock`, `restoreMock` and
+ * after each test by the setup entry.
+ *
+ * @param fn - A mocked function inside a mock created by `createMock`
+ * @returns A builder to refine the expectation
+ *
+ * @example
+ * ```typescript
+ * expectCall(repo.save).once().with(expect.objectContaining({ id: 1 }));
+ * expectCall(repo.delete).never();
+ *
+ * await service.register(user);
+ * verifyExpectations(repo);
+ * ```
+ */
+export const expectCall = <T extends Procedure>(
+	fn: Mock<T>,
+): CallExpectationBuilder<T> => {
+	const expectation = addExpectation(fn, {}, false);
+
+	const builder: CallExpectationBuilder<T> = {
+		times: (count) => {
+			expectation.times = count;
+			return builder;
+		},
+		once: () => builder.times(1),
+		never: () => builder.times(0),
+		with: (...args) => {
+			expectation.with = args;
+			return builder;
+		},
+	};
+
+	return builder;
+};
+
+/**
+ * Asserts that the expectations declared on the given mocks, through
+ * `MockOptions.expect` or expectCall, are met anywhere in their trees. Fails with a
+ * summary of every unmet expectation and the calls received instead.
+ *
+ * @param mocks - Mocks or mocked functions to check
+ *
+ * @example
+ * ```typescript
+ * const repo = createMock<Repo>({}, {
+ *   expect: { save: { times: 1, with: [expect.any(Object)] }, delete: { times: 0 } },
+ * });
+ *
+ * await service.register(user);
+ * verifyExpectations(repo);
+ * ```
+ */
+export const verifyExpectations = (...mocks: unknown[]): void => {
+	const unmet: string[][] = [];
+
+	for (const mock of mocks) {
+		walkMockStates(mock, (state) => {
+			for (const expectation of state.expectations ?? []) {
+				const lines = describeUnmet(state, expectation);
+
+				if (lines) {
+					unmet.push(lines);
+				}
+			}
+		});
+	}
+
+	if (unmet.length > 0) {
+		throw new Error(
+			[
+				`Expected mock expectations to be met, but ${plural(unmet.length, 'expectation')} ${unmet.length === 1 ? 'was' : 'were'} not:`,
+				...unmet.flat(),
+			].join('\n'),
+		);
+	}
+};
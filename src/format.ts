@@ -0,0 +1,87 @@
+import type { Interaction } from './journal';
+import { getMockState } from './state';
+
+/**
+ * Renders a value for error messages without touching mock internals: mocks are shown
+ * by name instead of being traversed, which would auto-generate members.
+ *
+ * @param value - Value to render
+ * @param depth - How many levels of nested arrays/objects to expand
+ */
+export const formatValue = (value: unknown, depth = 2): string => {
+	const state = getMockState(value);
+	if (state) {
+		return `[mock ${state.name}]`;
+	}
+
+	if (typeof value === 'string') {
+		return JSON.stringify(value);
+	}
+
+	if (typeof value === 'bigint') {
+		return `${value}n`;
+	}
+
+	if (typeof value === 'function') {
+		return `[Function ${value.name || 'anonymous'}]`;
+	}
+
+	if (typeof value !== 'object' || value === null) {
+		return String(value);
+	}
+
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+
+	if (value instanceof Error) {
+		return `${value.name}: ${value.message}`;
+	}
+
+	const matcher = value as {
+		asymmetricMatch?: unknown;
+		toAsymmetricMatcher?: () => string;
+	};
+	if (typeof matcher.asymmetricMatch === 'function') {
+		return matcher.toAsymmetricMatcher?.() ?? String(value);
+	}
+
+	if (Array.isArray(value)) {
+		return depth > 0
+			? `[${value.map((item) => formatValue(item, depth - 1)).join(', ')}]`
+			: '[Array]';
+	}
+
+	const tag = Object.getPrototypeOf(value)?.constructor?.name;
+	const prefix = tag && tag !== 'Object' ? `${tag} ` : '';
+
+	if (depth <= 0) {
+		return `[${tag || 'Object'}]`;
+	}
+
+	const entries = Object.entries(value).map(
+		([key, item]) => `${key}: ${formatValue(item, depth - 1)}`,
+	);
+
+	return entries.length > 0
+		? `${prefix}{ ${entries.join(', ')} }`
+		: `${prefix}{}`;
+};
+
+/**
+ * Renders a call as `name(arg1, arg2)`.
+ */
+export const formatCall = (name: string, args: readonly unknown[]): string =>
+	`${name}(${args.map((arg) => formatValue(arg)).join(', ')})`;
+
+/**
+ * Renders recorded calls as a numbered list, one call per line.
+ */
+export const formatInteractions = (interactions: Interaction[]): string[] =>
+	interactions.map(
+		(interaction, index) =>
+			`  ${index + 1}. ${formatCall(interaction.name, interaction.args)}`,
+	);
+
+export const plural = (count: number, word: string): string =>
+	`${count} ${word}${count === 1 ? '' : 's'}`;
@@ -1,6 +1,83 @@
+export type { CalledWithStub } from './called-with';
 export {
+	type CreateMockConfig,
+	configureCreateMock,
+	resetCreateMockConfig,
+	withMockConfig,
+} from './config';
+export type { DeferredCall, DeferredCalls } from './deferred';
+export {
+	type CallExpectationBuilder,
+	type CallExpectationOptions,
+	expectCall,
+	type MockExpectations,
+	verifyExpectations,
+} from './expectations';
+export { type PrintMockOptions, printMock } from './inspect';
+export {
+	getMockMeta,
+	isDeepMock,
+	listMockChildren,
+	type MockChild,
+	type MockMeta,
+} from './introspection';
+export type {
+	AsyncYieldHelpers,
+	YieldHelpers,
+	YieldOptions,
+} from './iterables';
+export {
+	clearInteractions,
+	createInteractionJournal,
+	getInteractions,
+	type InOrderStep,
+	type Interaction,
+	type InteractionJournal,
+	verifyInOrder,
+} from './journal';
+export {
+	clearMock,
+	type MockLifecycleOptions,
+	resetMock,
+	restoreMock,
+	sealMock,
+} from './lifecycle';
+export {
+	type Constructor,
 	createMock,
 	type DeepMocked,
+	type MockedClass,
+	type MockedFunction,
 	type MockOptions,
 	type PartialFuncReturn,
+	type PropertyTracking,
+	type Strictness,
 } from './mocks';
+export {
+	createModuleMock,
+	createModuleMockFrom,
+	type ModuleMockOptions,
+} from './module';
+export { getPropertyHistory } from './properties';
+export {
+	createMockFromSchema,
+	type JsonSchema,
+	type SchemaAdapter,
+	type SchemaMockOptions,
+	schemaAdapter,
+} from './schema';
+export { type ToPlainObjectOptions, toPlainObject } from './serialization';
+export { createSpyMock, type SpyMockOptions } from './spy';
+export type { PropertyAccess } from './state';
+export {
+	clearStrictViolations,
+	getStrictViolations,
+	type StrictViolation,
+} from './strict';
+export {
+	enableCallVerification,
+	markVerified,
+	verifyNoMoreInteractions,
+	verifyZeroInteractions,
+} from './verification';
+export { type WhenStub, when } from './when';
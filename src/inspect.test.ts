@@ -0,0 +1,106 @@
+import { inspect } from 'node:util';
+import { describe, expect, it, vi } from 'vitest';
+import { printMock } from './inspect';
+import { sealMock } from './lifecycle';
+import { createMock } from './mocks';
+
+interface Request {
+	headers: Record<string, string>;
+}
+
+interface ExecutionContext {
+	switchToHttp: () => {
+		getRequest: (full?: boolean) => Request;
+	};
+	getType: () => string;
+	getClass: () => string;
+	retries: number;
+	config: { timeout: number };
+}
+
+describe('printMock', () => {
+	it('should render the mock tree', () => {
+		const ctx = createMock<ExecutionContext>(
+			{ getType: () => 'http', retries: 3, config: { timeout: 5 } },
+			{ name: 'ctx', strict: true },
+		);
+
+		ctx.getType();
+		ctx.switchToHttp.mockReturnValue(
+			createMock({ getRequest: vi.fn() }, { name: 'http' }),
+		);
+		ctx.switchToHttp().getRequest(true);
+
+		expect(printMock(ctx)).toBe(
+			[
+				'ctx: mock, strict',
+				'  ctx.getType: function, provided, called 1 time, last with ()',
+				'  ctx.retries = 3',
+				'  ctx.config = { timeout: 5 }',
+				'  ctx.switchToHttp: auto-generated, called 1 time, last with ()',
+			].join('\n'),
+		);
+	});
+
+	it('should render auto-generated members by dotted path', () => {
+		const ctx = createMock<ExecutionContext>({}, { name: 'ctx' });
+
+		ctx.switchToHttp().getRequest(true);
+		void ctx.getClass;
+		sealMock(ctx);
+
+		expect(printMock(ctx)).toBe(
+			[
+				'ctx: mock, sealed',
+				'  ctx.switchToHttp: auto-generated, called 1 time, last with ()',
+				'    ctx.switchToHttp(): auto-generated',
+				'      ctx.switchToHttp().getRequest: auto-generated, called 1 time, last with (true)',
+				'        ctx.switchToHttp().getRequest(): auto-generated',
+				'  ctx.getClass: auto-generated',
+			].join('\n'),
+		);
+	});
+
+	it('should stop at the depth limit', () => {
+		const ctx = createMock<ExecutionContext>({}, { name: 'ctx' });
+
+		ctx.switchToHttp().getRequest();
+
+		expect(printMock(ctx, { depth: 1 })).toBe(
+			[
+				'ctx: mock',
+				'  ctx.switchToHttp: auto-generated, called 1 time, last with (), 1 child not shown',
+			].join('\n'),
+		);
+		expect(printMock(ctx, { depth: 0 })).toBe('ctx: mock');
+	});
+
+	it('should not generate members', () => {
+		const ctx = createMock<ExecutionContext>({}, { name: 'ctx' });
+
+		printMock(ctx);
+
+		expect(printMock(ctx)).toBe('ctx: mock');
+	});
+
+	it('should be used by util.inspect', () => {
+		const ctx = createMock<ExecutionContext>({ retries: 3 }, { name: 'ctx' });
+
+		ctx.getType();
+
+		expect(inspect(ctx)).toBe(printMock(ctx, { depth: 2 }));
+		expect(inspect(ctx.getType)).toBe(
+			[
+				'ctx.getType: auto-generated, called 1 time, last with ()',
+				'  ctx.getType(): auto-generated',
+			].join('\n'),
+		);
+		expect(inspect({ retries: 3 })).toBe('{ retries: 3 }');
+	});
+
+	it('should reject values that are not mocks', () => {
+		expect(() => printMock(vi.fn())).toThrow(
+			'printMock expects a mock created by createMock, received function',
+		);
+	});
+});
@@ -0,0 +1,209 @@
+import { vi } from 'vitest';
+import { formatCall, formatValue, plural } from './format';
+import { getMockState, type MockState } from './state';
+
+export type PrintMockOptions = {
+	/** How many levels of children to print below the mock (default: 4) */
+	depth?: number;
+};
+
+/**
+ * Symbol Node's `util.inspect` (and so `console.log`) looks up custom output under.
+ */
+export const inspectSymbol = Symbol.for('nodejs.util.inspect.custom');
+
+/**
+ * Properties every vi.fn() has: the Mock API, not members of the mock.
+ */
+export const mockApiKeys = new Set(Reflect.ownKeys(vi.fn()));
+
+/**
+ * Lists a mock's children without reading through its proxy: enumerable properties
+ * of its target (user-provided values), then generated children, call results and
+ * constructed instances.
+ */
+const childrenOf = (state: MockState): [label: string, value: unknown][] => {
+	const children = new Map<PropertyKey, unknown>();
+
+	for (const key of Reflect.ownKeys(state.target)) {
+		const descriptor = Object.getOwnPropertyDescriptor(state.target, key);
+
+		if (descriptor?.enumerable && !(state.callable && mockApiKeys.has(key))) {
+			children.set(
+				key,
+				descriptor.get || descriptor.set ? '[Getter/Setter]' : descriptor.value,
+			);
+		}
+	}
+
+	for (const [key, value] of state.cache ?? []) {
+		children.set(key, value);
+	}
+
+	return [
+		...[...children].map(([key, value]): [string, unknown] => [
+			key === '__apply' ? `${state.name}()` : `${state.name}.${key.toString()}`,
+			value,
+		]),
+		...(state.instances ?? []).map((instance): [string, unknown] => [
+			getMockState(instance)?.name ?? `new ${state.name}()`,
+			instance,
+		]),
+		// Results stubbed for specific arguments by `when`
+		...[...(state.stubbedResults ?? [])]
+			.filter(([, result]) => ![...children.values()].includes(result))
+			.map(([call, result]): [string, unknown] => [
+				`${state.name}${call}`,
+				result,
+			]),
+	];
+};
+
+const describeCalls = (calls: unknown[][]) => {
+	const last = calls.at(-1);
+
+	return last
+		? `called ${plural(calls.length, 'time')}, last with ${formatCall('', last)}`
+		: 'never called';
+};
+
+/**
+ * Auto-generated members may turn out to be functions or objects, so only calls tell
+ * them apart.
+ */
+const describeMock = (state: MockState) => {
+	const root = state.name === state.context.name;
+	const parts: string[] = [];
+
+	if (root || !state.autoGenerated) {
+		parts.push(state.callable ? 'function' : 'mock');
+	}
+	if (!root) {
+		parts.push(state.autoGenerated ? 'auto-generated' : 'provided');
+	}
+	if (root && state.context.strict) {
+		parts.push(
+			typeof state.context.strict === 'string'
+				? `strict: ${state.context.strict}`
+				: 'strict',
+		);
+	}
+	if (root && state.sealed) {
+		parts.push('sealed');
+	}
+	if (state.fn && (state.fn.mock.calls.length > 0 || !state.autoGenerated)) {
+		parts.push(describeCalls(state.fn.mock.calls));
+	}
+
+	return parts.join(', ');
+};
+
+const printTree = (
+	state: MockState,
+	depth: number,
+	indent: string,
+	seen: Set<MockState>,
+): string[] => {
+	const lines: string[] = [];
+
+	for (const [label, value] of childrenOf(state)) {
+		const child = getMockState(value);
+
+		if (child && !seen.has(child)) {
+			seen.add(child);
+
+			const nested =
+				depth > 1 ? printTree(child, depth - 1, `${indent}  `, seen) : [];
+			const hidden =
+				depth > 1 || childrenOf(child).length === 0
+					? ''
+					: `, ${plural(childrenOf(child).length, 'child')} not shown`;
+
+			lines.push(
+				`${indent}${label}: ${describeMock(child)}${hidden}`,
+				...nested,
+			);
+		} else if (!child && typeof value === 'function') {
+			// Composed vi.fn() mocks, or implementations not wrapped yet
+			const calls = vi.isMockFunction(value)
+				? describeCalls(value.mock.calls)
+				: 'never called';
+
+			lines.push(`${indent}${label}: function, provided, ${calls}`);
+		} else {
+			lines.push(`${indent}${label} = ${formatValue(value)}`);
+		}
+	}
+
+	return lines;
+};
+
+/**
+ * Renders a mock tree as text: user-provided values, auto-generated members by dotted
+ * path, call counts with the last arguments, and the strict flags of the tree. Nothing
+ * is read through the mock's proxies, so printing never generates members.
+ *
+ * `console.log` and `util.inspect` print mocks this way too.
+ *
+ * @param mock - A mock created by `createMock`, or any mock inside one
+ * @param options - Optional configuration (depth)
+ * @returns The rendered tree, one member per line
+ *
+ * @example
+ * ```typescript
+ * const ctx = createMock<ExecutionContext>({ getType: () => 'http' }, { name: 'ctx' });
+ * ctx.switchToHttp().getRequest(true);
+ *
+ * printMock(ctx);
+ * // ctx: mock
+ * //   ctx.getType: function, provided, never called
+ * //   ctx.switchToHttp: auto-generated, called 1 time, last with ()
+ * //     ctx.switchToHttp(): auto-generated
+ * //       ctx.switchToHttp().getRequest: auto-generated, called 1 time, last with (true)
+ * //         ctx.switchToHttp().getRequest(): auto-generated
+ * ```
+ */
+export const printMock = (
+	mock: unknown,
+	{ depth = 4 }: PrintMockOptions = {},
+): string => {
+	const state = getMockState(mock);
+
+	if (!state) {
+		throw new TypeError(
+			`printMock expects a mock created by createMock, received ${typeof mock}`,
+		);
+	}
+
+	return [
+		`${state.name}: ${describeMock(state)}`,
+		...(depth > 0 ? printTree(state, depth, '  ', new Set([state])) : []),
+	].join('\n');
+};
+
+/**
+ * Property through which `util.inspect` prints a mock with printMock, shared by every
+ * target. Node inspects the target of a proxy, so the hook lives on the target and
+ * receives the proxy as `this`.
+ */
+export const inspectorDescriptor: PropertyDescriptor = {
+	configurable: true,
+	writable: true,
+	value(this: unknown, depth: number | null) {
+		// The target itself (e.g. a partial logged directly) prints as usual
+		return getMockState(this)
+			? printMock(this, { depth: depth ?? Number.POSITIVE_INFINITY })
+			: this;
+	},
+};
+
+/**
+ * Makes `util.inspect` print a mock with printMock, see inspectorDescriptor.
+ */
+export const attachInspector = (target: object) => {
+	if (Object.hasOwn(target, inspectSymbol) || !Object.isExtensible(target)) {
+		return;
+	}
+
+	Object.defineProperty(target, inspectSymbol, inspectorDescriptor);
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getMockMeta, isDeepMock, listMockChildren } from './introspection';
+import { sealMock } from './lifecycle';
+import { createMock } from './mocks';
+import { createSpyMock } from './spy';
+
+interface Request {
+	headers: Record<string, string>;
+}
+
+interface ExecutionContext {
+	switchToHttp: () => {
+		getRequest: () => Request;
+	};
+	getType: () => string;
+	retries: number;
+}
+
+class Database {
+	connect() {
+		return true;
+	}
+}
+
+describe('Introspection', () => {
+	describe('isDeepMock', () => {
+		it('should recognize mocks and their members', () => {
+			const ctx = createMock<ExecutionContext>({ getType: () => 'http' });
+
+			expect(isDeepMock(ctx)).toBe(true);
+			expect(isDeepMock(ctx.switchToHttp)).toBe(true);
+			expect(isDeepMock(ctx.switchToHttp())).toBe(true);
+			expect(isDeepMock(ctx.getType)).toBe(true);
+			expect(isDeepMock(createSpyMock({ a: 1 }))).toBe(true);
+		});
+
+		it('should reject other values', () => {
+			expect(isDeepMock(vi.fn())).toBe(false);
+			expect(isDeepMock({})).toBe(false);
+			expect(isDeepMock(null)).toBe(false);
+			expect(isDeepMock('mock')).toBe(false);
+		});
+	});
+
+	describe('getMockMeta', () => {
+		it('should describe the root mock', () => {
+			const ctx = createMock<ExecutionContext>(
+				{},
+				{ name: 'ctx', strict: 'access' },
+			);
+
+			expect(getMockMeta(ctx)).toEqual({
+				name: 'ctx',
+				path: '',
+				strict: 'access',
+				sealed: false,
+				callable: false,
+				generated: false,
+			});
+		});
+
+		it('should describe auto-generated members', () => {
+			const ctx = createMock<ExecutionContext>({}, { name: 'ctx' });
+
+			expect(getMockMeta(ctx.switchToHttp().getRequest)).toEqual({
+				name: 'ctx.switchToHttp().getRequest',
+				path: 'switchToHttp().getRequest',
+				strict: false,
+				sealed: false,
+				callable: true,
+				generated: true,
+			});
+		});
+
+		it('should tell user-provided functions apart', () => {
+			const ctx = createMock<ExecutionContext>({ getType: () => 'http' });
+			void ctx.getType;
+			sealMock(ctx);
+
+			expect(getMockMeta(ctx.getType)).toMatchObject({
+				path: 'getType',
+				sealed: true,
+				generated: false,
+			});
+		});
+
+		it('should describe constructed instances', () => {
+			const Db = createMock<typeof Database>(undefined, {
+				name: 'Db',
+				callable: true,
+			});
+
+			expect(getMockMeta(new Db())).toMatchObject({
+				name: 'new Db()',
+				path: 'new ()',
+				generated: true,
+			});
+		});
+
+		it('should reject values that are not mocks', () => {
+			expect(() => getMockMeta({})).toThrow(
+				'getMockMeta expects a mock created by createMock, received object',
+			);
+		});
+	});
+
+	describe('listMockChildren', () => {
+		it('should list created children without generating any', () => {
+			const ctx = createMock<ExecutionContext>({ retries: 3 });
+			const switchToHttp = ctx.switchToHttp;
+			const http = ctx.switchToHttp();
+			void ctx.retries;
+
+			expect(listMockChildren(ctx)).toEqual([
+				{
+					key: 'switchToHttp',
+					path: 'switchToHttp',
+					value: switchToHttp,
+					generated: true,
+				},
+				{ key: 'retries', path: 'retries', value: 3, generated: false },
+			]);
+			expect(listMockChildren(switchToHttp)).toEqual([
+				{ key: '()', path: '()', value: http, generated: true },
+			]);
+			expect(listMockChildren(http)).toEqual([]);
+		});
+
+		it('should report assigned values as not generated', () => {
+			const ctx = createMock<ExecutionContext>();
+
+			void ctx.retries;
+			ctx.retries = 4;
+
+			expect(listMockChildren(ctx)).toMatchObject([
+				{ key: 'retries', value: 4, generated: false },
+			]);
+		});
+	});
+});
@@ -0,0 +1,136 @@
+import type { Strictness } from './mocks';
+import { getMockState, type MockState } from './state';
+
+/**
+ * What is known about a mock, see getMockMeta.
+ */
+export type MockMeta = {
+	/** Debug name, the full dotted path used in error messages, e.g. `ctx.switchToHttp().getRequest` */
+	name: string;
+	/** Path from the root mock of the tree, e.g. `switchToHttp().getRequest`, empty for the root */
+	path: string;
+	/** How strictly the tree treats members that were not stubbed */
+	strict: Strictness;
+	/** Whether sealMock has been applied */
+	sealed: boolean;
+	/** Whether the mock is itself a mocked function */
+	callable: boolean;
+	/**
+	 * Whether the library generated the mock (an auto-mocked member, call result or
+	 * constructed instance, or a member stubbed from a class), as opposed to a mock
+	 * created by `createMock` or wrapping a user-provided value
+	 */
+	generated: boolean;
+};
+
+/**
+ * A child a mock has created so far, see listMockChildren.
+ */
+export type MockChild = {
+	/** Property name, or `()` for the value returned by calls */
+	key: PropertyKey;
+	/** Path from the parent mock, e.g. `getRequest` or `()` */
+	path: string;
+	/** The child: a nested mock, a mocked function or a user-provided value */
+	value: unknown;
+	/** Whether the child was auto-generated rather than provided or assigned */
+	generated: boolean;
+};
+
+const requireMockState = (value: unknown, caller: string): MockState => {
+	const state = getMockState(value);
+
+	if (!state) {
+		throw new TypeError(
+			`${caller} expects a mock created by createMock, received ${typeof value}`,
+		);
+	}
+
+	return state;
+};
+
+/**
+ * Strips the root name from a debug name, keeping `new` for constructed instances.
+ */
+const relativePath = (name: string, root: string): string => {
+	if (name.startsWith('new ')) {
+		return `new ${relativePath(name.slice('new '.length), root)}`;
+	}
+
+	return name.startsWith(root)
+		? name.slice(root.length).replace(/^\./, '')
+		: name;
+};
+
+/**
+ * Tells whether a value is a mock created by this library: a deep mock from
+ * `createMock` (or `createSpyMock`), or any mock or mocked function inside one.
+ *
+ * @param value - Any value
+ *
+ * @example
+ * ```typescript
+ * isDeepMock(createMock<UserService>()); // true
+ * isDeepMock(vi.fn()); // false
+ * ```
+ */
+export const isDeepMock = (value: unknown): boolean =>
+	getMockState(value) !== undefined;
+
+/**
+ * Describes a mock: its debug name and path within its tree, strictness, and whether
+ * it was auto-generated.
+ *
+ * @param mock - A mock created by `createMock`, or any mock inside one
+ * @returns The mock's metadata
+ *
+ * @example
+ * ```typescript
+ * const ctx = createMock<ExecutionContext>({}, { name: 'ctx' });
+ *
+ * getMockMeta(ctx.switchToHttp().getRequest);
+ * // { name: 'ctx.switchToHttp().getRequest', path: 'switchToHttp().getRequest',
+ * //   strict: false, sealed: false, callable: true, generated: true }
+ * ```
+ */
+export const getMockMeta = (mock: unknown): MockMeta => {
+	const state = requireMockState(mock, 'getMockMeta');
+
+	return {
+		name: state.name,
+		path: relativePath(state.name, state.context.name),
+		strict: state.context.strict,
+		sealed: state.sealed ?? false,
+		callable: state.callable ?? false,
+		generated: state.autoGenerated ?? false,
+	};
+};
+
+/**
+ * Lists the children a mock has created so far, in creation order: nested mocks and
+ * functions it generated or was given, and the cached result of calls. Listing does
+ * not generate anything, so it is safe for walking a mock tree.
+ *
+ * @param mock - A mock created by `createMock`, or any mock inside one
+ * @returns The mock's children
+ *
+ * @example
+ * ```typescript
+ * const walk = (mock: unknown, depth = 0) => {
+ *   for (const child of listMockChildren(mock)) {
+ *     console.log(`${'  '.repeat(depth)}${child.path}`);
+ *     if (isDeepMock(child.value)) walk(child.value, depth + 1);
+ *   }
+ * };
+ * ```
+ */
+export const listMockChildren = (mock: unknown): MockChild[] => {
+	const state = requireMockState(mock, 'listMockChildren');
+
+	return [...(state.cache ?? [])].map(([key, value]) => ({
+		key: key === '__apply' ? '()' : key,
+		path: key === '__apply' ? '()' : key.toString(),
+		value,
+		generated: state.generated?.has(key) ?? false,
+	}));
+};
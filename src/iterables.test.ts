@@ -0,0 +1,197 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { resetMock } from './lifecycle';
+import { createMock } from './mocks';
+
+interface Event {
+	type: string;
+}
+
+interface EventSource {
+	ids: () => Iterable<number>;
+	stream: (topic: string) => AsyncIterable<Event>;
+	generate: () => Generator<number>;
+	events: AsyncIterable<Event>;
+	tags: Iterable<string>;
+	list: () => number[];
+	names: Set<string>;
+}
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+	const values: T[] = [];
+	for await (const value of iterable) {
+		values.push(value);
+	}
+	return values;
+};
+
+describe('Iterable mocks', () => {
+	it('should make auto-mocked values iterate over nothing', async () => {
+		const source = createMock<EventSource>();
+
+		expect([...source.tags]).toEqual([]);
+		expect([...source.ids()]).toEqual([]);
+		expect(await collect(source.events)).toEqual([]);
+		expect(await collect(source.stream('orders'))).toEqual([]);
+	});
+
+	describe('mockYield', () => {
+		it('should make calls return iterables of the values', () => {
+			const source = createMock<EventSource>();
+
+			source.ids.mockYield([1, 2, 3]);
+			source.generate.mockYield([4]);
+
+			expect([...source.ids()]).toEqual([1, 2, 3]);
+			expect([...source.ids()]).toEqual([1, 2, 3]);
+			expect(Array.from(source.generate())).toEqual([4]);
+			expect(source.ids).toHaveBeenCalledTimes(2);
+		});
+
+		it('should make iterable values yield the values', () => {
+			const source = createMock<EventSource>();
+
+			source.tags.mockYield(['a', 'b']);
+
+			expect([...source.tags]).toEqual(['a', 'b']);
+			for (const tag of source.tags) {
+				expect(['a', 'b']).toContain(tag);
+			}
+		});
+
+		it('should throw an error after the values', () => {
+			const source = createMock<EventSource>();
+			const seen: number[] = [];
+
+			source.ids.mockYield([1, 2], { error: new Error('connection lost') });
+
+			expect(() => {
+				for (const id of source.ids()) {
+					seen.push(id);
+				}
+			}).toThrow('connection lost');
+			expect(seen).toEqual([1, 2]);
+		});
+
+		it('should support one-off values', () => {
+			const source = createMock<EventSource>();
+
+			source.ids.mockYield([0]).mockYieldOnce([1]).mockYieldOnce([2]);
+
+			expect([...source.ids()]).toEqual([1]);
+			expect([...source.ids()]).toEqual([2]);
+			expect([...source.ids()]).toEqual([0]);
+		});
+
+		it('should serve one-off values to the next call and iteration each', () => {
+			const source = createMock<EventSource>();
+
+			source.tags.mockYieldOnce(['a']);
+
+			expect([...source.tags]).toEqual(['a']);
+			expect([...source.tags]).toEqual([]);
+			expect([...(source.tags as unknown as () => Iterable<string>)()]).toEqual(
+				['a'],
+			);
+		});
+
+		it('should be undone by resetMock', () => {
+			const source = createMock<EventSource>();
+
+			source.tags.mockYield(['a']);
+			resetMock(source);
+
+			expect([...source.tags]).toEqual([]);
+		});
+	});
+
+	describe('mockAsyncYield', () => {
+		it('should make calls return async iterables of the values', async () => {
+			const source = createMock<EventSource>();
+
+			source.stream.mockAsyncYield([{ type: 'created' }, { type: 'paid' }]);
+
+			expect(await collect(source.stream('orders'))).toEqual([
+				{ type: 'created' },
+				{ type: 'paid' },
+			]);
+		});
+
+		it('should make async iterable values yield the values', async () => {
+			const source = createMock<EventSource>();
+
+			source.events.mockAsyncYieldOnce([{ type: 'created' }]);
+
+			expect(await collect(source.events)).toEqual([{ type: 'created' }]);
+			expect(await collect(source.events)).toEqual([]);
+		});
+
+		it('should wait between values and fail mid-stream', async () => {
+			vi.useFakeTimers();
+			try {
+				const source = createMock<EventSource>();
+				const seen: string[] = [];
+
+				source.stream.mockAsyncYield([{ type: 'created' }, { type: 'paid' }], {
+					delay: 100,
+					error: new Error('stream closed'),
+				});
+
+				const done = (async () => {
+					for await (const event of source.stream('orders')) {
+						seen.push(event.type);
+					}
+				})();
+				const failed = expect(done).rejects.toThrow('stream closed');
+
+				await vi.advanceTimersByTimeAsync(100);
+				expect(seen).toEqual(['created']);
+
+				await vi.advanceTimersByTimeAsync(100);
+				await failed;
+				expect(seen).toEqual(['created', 'paid']);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+	});
+
+	describe('root mocks', () => {
+		it('should make iterable roots yield the values', async () => {
+			const ids = createMock<Iterable<number>>();
+			const events = createMock<AsyncIterable<Event>>();
+
+			ids.mockYield([1, 2]);
+			events.mockAsyncYieldOnce([{ type: 'created' }]);
+
+			expect([...ids]).toEqual([1, 2]);
+			expect([...ids]).toEqual([1, 2]);
+			expect(await collect(events)).toEqual([{ type: 'created' }]);
+			expect(await collect(events)).toEqual([]);
+		});
+
+		it('should stub the iterator of provided bases', () => {
+			const base: Iterable<number> = {
+				*[Symbol.iterator]() {
+					yield 0;
+				},
+			};
+			const ids = createMock<Iterable<number>>(base);
+
+			expect([...ids]).toEqual([0]);
+			ids.mockYield([3, 4]);
+			expect([...ids]).toEqual([3, 4]);
+		});
+	});
+
+	it('should only offer helpers where a generator fits the type', () => {
+		const source = createMock<EventSource>();
+
+		expectTypeOf(source.ids).toHaveProperty('mockYield');
+		expectTypeOf(source.ids).not.toHaveProperty('mockAsyncYield');
+		expectTypeOf(source.stream).toHaveProperty('mockAsyncYield');
+		expectTypeOf(source.tags).toHaveProperty('mockYieldOnce');
+		expectTypeOf(source.events).toHaveProperty('mockAsyncYieldOnce');
+		expectTypeOf(source.list).not.toHaveProperty('mockYield');
+		expectTypeOf(source.names).not.toHaveProperty('mockYield');
+	});
+});
@@ -0,0 +1,155 @@
+import type { Mock } from 'vitest';
+import { vi } from 'vitest';
+
+export type YieldOptions = {
+	/** Milliseconds to wait before each value (async iteration only) */
+	delay?: number;
+	/** Thrown by the iterator after the last value */
+	error?: unknown;
+};
+
+/**
+ * Helpers for mocks of functions returning a (sync) iterable and for iterable values.
+ */
+export type YieldHelpers<U> = {
+	/**
+	 * Makes every call, and iterating the mock itself, yield `values`, then throw
+	 * `options.error` if given.
+	 */
+	mockYield: (values: Iterable<U>, options?: YieldOptions) => YieldHelpers<U>;
+	/**
+	 * Like mockYield, for the next call and the next iteration of the mock itself only.
+	 * Each of the two serves `values` once, see createYieldHelper.
+	 */
+	mockYieldOnce: (
+		values: Iterable<U>,
+		options?: YieldOptions,
+	) => YieldHelpers<U>;
+};
+
+/**
+ * Helpers for mocks of functions returning an async iterable and for async iterable
+ * values.
+ */
+export type AsyncYieldHelpers<U> = {
+	/**
+	 * Makes every call, and `for await` over the mock itself, yield `values` (waiting
+	 * `options.delay` ms before each), then throw `options.error` if given.
+	 */
+	mockAsyncYield: (
+		values: Iterable<U>,
+		options?: YieldOptions,
+	) => AsyncYieldHelpers<U>;
+	/**
+	 * Like mockAsyncYield, for the next call and the next `for await` over the mock
+	 * itself only. Each of the two serves `values` once, see createYieldHelper.
+	 */
+	mockAsyncYieldOnce: (
+		values: Iterable<U>,
+		options?: YieldOptions,
+	) => AsyncYieldHelpers<U>;
+};
+
+/**
+ * The yield helpers a mock of T gets: only when a generator can stand in for T, so
+ * arrays, sets or strings are left alone.
+ */
+export type YieldHelpersOf<T> =
+	T extends AsyncIterable<infer U>
+		? AsyncGenerator<U, void, undefined> extends T
+			? AsyncYieldHelpers<U>
+			: unknown
+		: T extends Iterable<infer U>
+			? Generator<U, void, undefined> extends T
+				? YieldHelpers<U>
+				: unknown
+			: unknown;
+
+/**
+ * Names of the yield helpers on mocked functions and mocks of iterable values.
+ */
+export const yieldHelperNames = new Set([
+	'mockYield',
+	'mockYieldOnce',
+	'mockAsyncYield',
+	'mockAsyncYieldOnce',
+]);
+
+function* generate<U>(values: Iterable<U>, { error }: YieldOptions = {}) {
+	yield* values;
+
+	if (error !== undefined) {
+		throw error;
+	}
+}
+
+async function* generateAsync<U>(
+	values: Iterable<U>,
+	{ delay, error }: YieldOptions = {},
+) {
+	for (const value of values) {
+		if (delay) {
+			await new Promise((resolve) => setTimeout(resolve, delay));
+		}
+
+		yield value;
+	}
+
+	if (error !== undefined) {
+		throw error;
+	}
+}
+
+export type IteratorSymbol =
+	| typeof Symbol.iterator
+	| typeof Symbol.asyncIterator;
+
+export const isIteratorSymbol = (prop: PropertyKey): prop is IteratorSymbol =>
+	prop === Symbol.iterator || prop === Symbol.asyncIterator;
+
+/**
+ * Creates the `[Symbol.iterator]` or `[Symbol.asyncIterator]` method of an auto-mocked
+ * value: iterating yields nothing until a yield helper says otherwise.
+ */
+export const createIteratorMock = (symbol: IteratorSymbol): Mock =>
+	vi.fn(
+		symbol === Symbol.iterator ? () => generate([]) : () => generateAsync([]),
+	);
+
+/**
+ * Creates a yield helper of a mock: it stubs both the calls of a mocked function and
+ * the iterator method of the mock, as auto-mocked members can be either. The Once
+ * helpers queue on the two separately: Vitest has no way to take back an
+ * implementation queued with mockImplementationOnce, so one can't consume the other's.
+ *
+ * @param helper - One of yieldHelperNames
+ * @param fn - The underlying vi.fn(), undefined for mocks that are not functions
+ * @param iteratorOf - Returns the mock's iterator method for a symbol
+ * @param receiver - Returned for chaining
+ */
+export const createYieldHelper =
+	(
+		helper: string,
+		fn: Mock | undefined,
+		iteratorOf: (symbol: IteratorSymbol) => Mock,
+		receiver: unknown,
+	) =>
+	(values: Iterable<unknown>, options?: YieldOptions) => {
+		const isAsync = helper.startsWith('mockAsync');
+		const implementation = isAsync
+			? () => generateAsync(values, options)
+			: () => generate(values, options);
+		const iterator = iteratorOf(
+			isAsync ? Symbol.asyncIterator : Symbol.iterator,
+		);
+
+		if (helper.endsWith('Once')) {
+			fn?.mockImplementationOnce(implementation);
+			iterator.mockImplementationOnce(implementation);
+		} else {
+			fn?.mockImplementation(implementation);
+			iterator.mockImplementation(implementation);
+		}
+
+		return receiver;
+	};
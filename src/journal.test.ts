@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+	clearInteractions,
+	createInteractionJournal,
+	getInteractions,
+	verifyInOrder,
+} from './journal';
+import { clearMock } from './lifecycle';
+import { createMock } from './mocks';
+
+interface User {
+	id: number;
+}
+
+interface UserRepository {
+	save: (user: User) => Promise<void>;
+	findById: (id: number) => User | undefined;
+}
+
+interface EventBus {
+	publish: (event: string, payload?: unknown) => void;
+}
+
+describe('Interaction journal', () => {
+	afterEach(() => {
+		clearInteractions();
+	});
+
+	describe('getInteractions', () => {
+		it('should record calls across mocks in call order', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+			const events = createMock<EventBus>({}, { name: 'events' });
+
+			repo.findById(1);
+			events.publish('user.created', { id: 1 });
+
+			expect(getInteractions()).toMatchObject([
+				{ name: 'repo.findById', args: [1] },
+				{ name: 'events.publish', args: ['user.created', { id: 1 }] },
+			]);
+		});
+
+		it('should record return values and thrown errors', () => {
+			const error = new Error('boom');
+			const repo = createMock<UserRepository>(
+				{
+					findById: (id) => ({ id }),
+					save: () => {
+						throw error;
+					},
+				},
+				{ name: 'repo' },
+			);
+
+			repo.findById(1);
+			expect(() => repo.save({ id: 1 })).toThrow(error);
+
+			expect(getInteractions()).toMatchObject([
+				{ name: 'repo.findById', result: { type: 'return', value: { id: 1 } } },
+				{ name: 'repo.save', result: { type: 'throw', value: error } },
+			]);
+		});
+
+		it('should record auto-mocked calls with increasing sequence and timestamps', () => {
+			// biome-ignore lint/suspicious/noExplicitAny: looseness needed for .nested property
+			const mock = createMock<Record<string, any>>();
+
+			mock.nested.deeply.run('a');
+			mock.other();
+
+			const [first, second] = getInteractions();
+			expect(first.name).toBe('mock.nested.deeply.run');
+			expect(second.name).toBe('mock.other');
+			expect(second.sequence).toBeGreaterThan(first.sequence);
+			expect(second.timestamp).toBeGreaterThanOrEqual(first.timestamp);
+		});
+
+		it('should filter by mock', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+			const events = createMock<EventBus>({}, { name: 'events' });
+
+			repo.findById(1);
+			events.publish('user.created');
+			repo.findById(2);
+
+			expect(getInteractions(repo).map(({ args }) => args)).toEqual([[1], [2]]);
+			expect(getInteractions(events.publish)).toHaveLength(1);
+		});
+
+		it('should forget interactions when the mock is cleared', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+			const events = createMock<EventBus>({}, { name: 'events' });
+
+			repo.findById(1);
+			events.publish('user.created');
+			clearMock(repo);
+
+			expect(getInteractions()).toMatchObject([{ name: 'events.publish' }]);
+		});
+
+		it('should not keep mocks alive', async () => {
+			const gc = (globalThis as { gc?: () => void }).gc;
+			const call = () => {
+				const repo = createMock<UserRepository>({}, { name: 'repo' });
+				repo.findById(1);
+				// Vitest keeps the receiver and result of calls until the vi.fn() is cleared
+				repo.findById.mockClear();
+				return new WeakRef(repo.findById);
+			};
+			const ref = call();
+
+			// WeakRef targets stay alive until the current job ends
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			gc?.();
+
+			expect(ref.deref() === undefined).toBe(true);
+			expect(getInteractions()).toEqual([]);
+		});
+	});
+
+	describe('verifyInOrder', () => {
+		it('should pass when calls happened in order', async () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+			const events = createMock<EventBus>({}, { name: 'events' });
+
+			await repo.save({ id: 1 });
+			repo.findById(1);
+			events.publish('user.created');
+
+			expect(() => verifyInOrder([repo.save, events.publish])).not.toThrow();
+		});
+
+		it('should match arguments', () => {
+			const events = createMock<EventBus>({}, { name: 'events' });
+
+			events.publish('user.created', { id: 1 });
+			events.publish('user.updated', { id: 1 });
+
+			expect(() =>
+				verifyInOrder([
+					{ fn: events.publish, args: ['user.created', expect.anything()] },
+					{ fn: events.publish, args: ['user.updated', { id: 1 }] },
+				]),
+			).not.toThrow();
+			expect(() =>
+				verifyInOrder([
+					{ fn: events.publish, args: ['user.updated', expect.anything()] },
+					{ fn: events.publish, args: ['user.created', expect.anything()] },
+				]),
+			).toThrow();
+		});
+
+		it('should describe expected and received calls on failure', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+			const events = createMock<EventBus>({}, { name: 'events' });
+
+			events.publish('user.created');
+			repo.save({ id: 1 });
+
+			expect(() =>
+				verifyInOrder([{ fn: repo.save, args: [{ id: 1 }] }, events.publish]),
+			).toThrow(
+				[
+					'Expected calls in order:',
+					'  ✓ repo.save({ id: 1 })',
+					'  ✗ events.publish(…)',
+					'Received calls:',
+					'  1. events.publish("user.created")',
+					'  2. repo.save({ id: 1 })',
+				].join('\n'),
+			);
+		});
+
+		it('should report missing calls', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+
+			expect(() => verifyInOrder([repo.save])).toThrow(
+				['  ✗ repo.save(…)', 'Received calls:', '  (none)'].join('\n'),
+			);
+		});
+	});
+
+	describe('scoped journals', () => {
+		it('should record only the mocks using them', () => {
+			const journal = createInteractionJournal();
+			const repo = createMock<UserRepository>({}, { name: 'repo', journal });
+			const events = createMock<EventBus>({}, { name: 'events' });
+
+			repo.findById(1);
+			events.publish('user.created');
+
+			expect(journal.getInteractions()).toMatchObject([
+				{ name: 'repo.findById' },
+			]);
+			expect(getInteractions()).toMatchObject([{ name: 'events.publish' }]);
+			expect(() => journal.verifyInOrder([repo.findById])).not.toThrow();
+
+			journal.clear();
+			expect(journal.getInteractions()).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,408 @@
+import type { MockInstance } from 'vitest';
+import { vi } from 'vitest';
+import { formatCall } from './format';
+import { matches } from './matching';
+import {
+	getMockFn,
+	getMockState,
+	type MockState,
+	walkMockStates,
+} from './state';
+
+// biome-ignore lint/suspicious/noExplicitAny: generic constraint for any function signature
+type AnyFunction = (...args: any[]) => any;
+
+/**
+ * A single call to a mocked function, as recorded by an interaction journal.
+ */
+export type Interaction = {
+	/** Dotted path of the called function, e.g. `repo.save` */
+	name: string;
+	/** Arguments the function was called with */
+	args: unknown[];
+	/** Outcome of the call, `incomplete` while it is still running */
+	result: { type: 'incomplete' | 'return' | 'throw'; value: unknown };
+	/** `Date.now()` when the call started */
+	timestamp: number;
+	/** Position of the call across all journals, starting at 1 */
+	sequence: number;
+	/** Underlying vi.fn() that was called */
+	fn: MockInstance;
+	/** Whether an assertion has accounted for this call, see verifyNoMoreInteractions */
+	verified: boolean;
+	/**
+	 * Whether nothing was stubbed for the call, so it returned an auto-generated mock
+	 * (or undefined, see `MockOptions.autoReturn`)
+	 */
+	autoMocked: boolean;
+};
+
+/**
+ * One expected call for `verifyInOrder`: a mocked function, optionally with the
+ * arguments it should have been called with (asymmetric matchers allowed).
+ */
+export type InOrderStep = AnyFunction | { fn: AnyFunction; args: unknown[] };
+
+/**
+ * Records the calls of every mock that uses it, across mock instances.
+ */
+export type InteractionJournal = {
+	/**
+	 * Returns recorded calls in call order, optionally only those made to functions
+	 * of the given mock tree.
+	 */
+	getInteractions: (mock?: unknown) => Interaction[];
+	/**
+	 * Asserts that the given calls happened in this order and marks them verified.
+	 * Other calls may happen in between. Throws an error listing the expected and
+	 * received calls otherwise.
+	 */
+	verifyInOrder: (steps: InOrderStep[]) => void;
+	/** Forgets recorded calls, optionally only those of the given mock tree */
+	clear: (mock?: unknown) => void;
+};
+
+/**
+ * Where a journal keeps its calls: with the state of each mocked function, so that
+ * the calls of a mock are garbage-collected along with it (Vitest keeps every vi.fn()
+ * alive), and in call order for journals created with createInteractionJournal.
+ */
+type JournalStore = {
+	byFunction: WeakMap<MockState, Interaction[]>;
+	/** Every call, kept by explicitly created journals only */
+	entries?: Interaction[];
+	/** Functions called since the journal was created, for unscoped reads of the global journal */
+	called?: Set<WeakRef<MockState>>;
+};
+
+const journalStores = new WeakMap<InteractionJournal, JournalStore>();
+
+/** Drops the references to functions that were garbage-collected */
+const releaseCalled = new FinalizationRegistry<{
+	called: Set<WeakRef<MockState>>;
+	ref: WeakRef<MockState>;
+}>(({ called, ref }) => {
+	called.delete(ref);
+});
+
+/**
+ * Adds a call to a journal's store.
+ */
+const storeInteraction = (
+	store: JournalStore,
+	state: MockState,
+	interaction: Interaction,
+) => {
+	let interactions = store.byFunction.get(state);
+
+	if (!interactions) {
+		interactions = [];
+		store.byFunction.set(state, interactions);
+
+		if (store.called) {
+			const ref = new WeakRef(state);
+			store.called.add(ref);
+			releaseCalled.register(state, { called: store.called, ref });
+		}
+	}
+
+	interactions.push(interaction);
+	store.entries?.push(interaction);
+};
+
+let sequence = 0;
+
+/**
+ * Returns the next position in the order shared by calls and property accesses.
+ */
+export const nextSequence = () => ++sequence;
+
+/**
+ * Collects the state of every function in a mock tree.
+ */
+const collectFunctions = (mock: unknown): MockState[] => {
+	const functions: MockState[] = [];
+
+	walkMockStates(mock, (state) => {
+		if (state.fn) {
+			functions.push(state);
+		}
+	});
+
+	return functions;
+};
+
+const resolveStep = (
+	step: InOrderStep,
+): {
+	name: string;
+	state?: MockState;
+	fn?: MockInstance;
+	args?: unknown[];
+} => {
+	const { fn, args } = typeof step === 'function' ? { fn: step } : step;
+	const state = getMockState(fn);
+
+	const mockFn = state && getMockFn(state);
+
+	if (state && mockFn) {
+		return { name: state.name, state, fn: mockFn, args };
+	}
+
+	return {
+		name: vi.isMockFunction(fn) ? fn.getMockName() : fn.name || 'anonymous',
+		args,
+	};
+};
+
+/**
+ * Merges the calls of several functions back into call order.
+ */
+const inCallOrder = (lists: Interaction[][]): Interaction[] =>
+	lists.flat().sort((a, b) => a.sequence - b.sequence);
+
+const createJournal = (retainEntries: boolean): InteractionJournal => {
+	const store: JournalStore = {
+		byFunction: new WeakMap(),
+		entries: retainEntries ? [] : undefined,
+		called: retainEntries ? undefined : new Set(),
+	};
+	/** Every function called since the journal was created */
+	const calledFunctions = (): MockState[] =>
+		[...(store.called ?? [])]
+			.map((ref) => ref.deref())
+			.filter((state): state is MockState => state !== undefined);
+
+	const interactionsOf = (functions: Iterable<MockState | undefined>) =>
+		inCallOrder(
+			[...new Set(functions)].map(
+				(state) => (state && store.byFunction.get(state)) ?? [],
+			),
+		);
+
+	const getInteractions = (mock?: unknown) => {
+		if (mock === undefined) {
+			return store.entries
+				? [...store.entries]
+				: interactionsOf(calledFunctions());
+		}
+
+		return interactionsOf(collectFunctions(mock));
+	};
+
+	const verifyInOrder = (steps: InOrderStep[]) => {
+		const resolved = steps.map(resolveStep);
+		const received = interactionsOf(resolved.map((step) => step.state));
+		const matched: Interaction[] = [];
+
+		for (const interaction of received) {
+			const step = resolved[matched.length];
+
+			if (
+				step &&
+				interaction.fn === step.fn &&
+				(!step.args || matches(step.args, interaction.args))
+			) {
+				matched.push(interaction);
+			}
+		}
+
+		if (matched.length === resolved.length) {
+			for (const interaction of matched) {
+				interaction.verified = true;
+			}
+			return;
+		}
+
+		throw new Error(
+			[
+				'Expected calls in order:',
+				...resolved.map(
+					(step, index) =>
+						`  ${index < matched.length ? '✓' : '✗'} ${
+							step.args ? formatCall(step.name, step.args) : `${step.name}(…)`
+						}${step.fn ? '' : ' (not a mock created by createMock)'}`,
+				),
+				'Received calls:',
+				...(received.length > 0
+					? received.map(
+							(interaction, index) =>
+								`  ${index + 1}. ${formatCall(interaction.name, interaction.args)}`,
+						)
+					: ['  (none)']),
+			].join('\n'),
+		);
+	};
+
+	const clear = (mock?: unknown) => {
+		if (mock === undefined) {
+			store.byFunction = new WeakMap();
+			store.called?.clear();
+			if (store.entries) {
+				store.entries.length = 0;
+			}
+			return;
+		}
+
+		const cleared = new Set<MockInstance>();
+		for (const state of collectFunctions(mock)) {
+			const interactions = store.byFunction.get(state);
+			if (interactions) {
+				interactions.length = 0;
+			}
+			if (state.fn) {
+				cleared.add(state.fn);
+			}
+		}
+
+		if (!store.entries) {
+			return;
+		}
+
+		// Compacted in place, as spreading a long journal overflows the stack
+		let kept = 0;
+		for (const interaction of store.entries) {
+			if (!cleared.has(interaction.fn)) {
+				store.entries[kept++] = interaction;
+			}
+		}
+		store.entries.length = kept;
+	};
+
+	const journal: InteractionJournal = { getInteractions, verifyInOrder, clear };
+	journalStores.set(journal, store);
+
+	return journal;
+};
+
+/**
+ * Creates a journal that mocks can record to through `MockOptions.journal`, isolated
+ * from the global one. Unlike the global journal, it keeps every call it records
+ * until cleared, also those of mocks that are no longer used.
+ *
+ * @example
+ * ```typescript
+ * const journal = createInteractionJournal();
+ * const repo = createMock<Repo>({}, { name: 'repo', journal });
+ * const events = createMock<Events>({}, { name: 'events', journal });
+ *
+ * await service.register(user);
+ *
+ * journal.verifyInOrder([repo.save, events.publish]);
+ * ```
+ */
+export const createInteractionJournal = (): InteractionJournal =>
+	createJournal(true);
+
+/**
+ * Returns the calls of one mocked function, in call order, without walking the mock
+ * tree it belongs to.
+ *
+ * @param state - State of the mocked function
+ */
+export const getFunctionInteractions = (state: MockState): Interaction[] =>
+	journalStores.get(state.context.journal)?.byFunction.get(state) ?? [];
+
+/**
+ * Journal used by mocks that were not given one through `MockOptions.journal`. It
+ * keeps calls with the functions that received them, so mocks that are no longer
+ * referenced are garbage-collected along with their calls.
+ */
+export const globalJournal = createJournal(false);
+
+/**
+ * Returns the calls recorded by the global journal in call order, optionally only
+ * those made to functions of the given mock tree.
+ *
+ * @param mock - Optional mock (or mocked function) to filter by
+ */
+export const getInteractions = globalJournal.getInteractions;
+
+/**
+ * Asserts that calls recorded by the global journal happened in the given order,
+ * across any number of mocks. Other calls may happen in between.
+ *
+ * @param steps - Mocked functions, or `{ fn, args }` to also match arguments
+ *
+ * @example
+ * ```typescript
+ * verifyInOrder([repo.save, { fn: events.publish, args: ['user.created'] }]);
+ * ```
+ */
+export const verifyInOrder = globalJournal.verifyInOrder;
+
+/**
+ * Forgets calls recorded by the global journal, optionally only those of the given
+ * mock tree.
+ *
+ * @param mock - Optional mock (or mocked function) whose calls should be forgotten
+ */
+export const clearInteractions = globalJournal.clear;
+
+/**
+ * Journals the functions of a mock tree record to.
+ */
+const journalsOf = (mock: unknown): Set<InteractionJournal> => {
+	const journals = new Set<InteractionJournal>();
+
+	walkMockStates(mock, (state) => {
+		journals.add(state.context.journal);
+	});
+
+	return journals;
+};
+
+/**
+ * Collects the calls of every function in a mock tree, in call order, from all the
+ * journals they were recorded to.
+ */
+export const collectInteractions = (mock: unknown): Interaction[] =>
+	[...journalsOf(mock)]
+		.flatMap((journal) => journal.getInteractions(mock))
+		.sort((a, b) => a.sequence - b.sequence);
+
+/**
+ * Forgets the calls of every function in a mock tree from the journals they were
+ * recorded to.
+ */
+export const forgetInteractions = (mock: unknown) => {
+	for (const journal of journalsOf(mock)) {
+		journal.clear(mock);
+	}
+};
+
+/**
+ * Runs `call` and records it, with its outcome, to the journal of the called mocked
+ * function.
+ */
+export const recordInteraction = (
+	state: MockState,
+	name: string,
+	fn: MockInstance,
+	args: unknown[],
+	call: (interaction: Interaction) => unknown,
+): unknown => {
+	const interaction: Interaction = {
+		name,
+		args,
+		result: { type: 'incomplete', value: undefined },
+		timestamp: Date.now(),
+		sequence: nextSequence(),
+		fn,
+		verified: false,
+		autoMocked: false,
+	};
+	const store = journalStores.get(state.context.journal);
+	if (store) {
+		storeInteraction(store, state, interaction);
+	}
+
+	try {
+		const value = call(interaction);
+		interaction.result = { type: 'return', value };
+		return value;
+	} catch (error) {
+		interaction.result = { type: 'throw', value: error };
+		throw error;
+	}
+};
@@ -0,0 +1,238 @@
+import { describe, expect, it, vi } from 'vitest';
+import { clearMock, resetMock, restoreMock, sealMock } from './lifecycle';
+import { createMock } from './mocks';
+
+interface Request {
+	headers: Record<string, string>;
+}
+
+interface ExecutionContext {
+	switchToHttp: () => {
+		getRequest: () => Request;
+	};
+	getType: () => string;
+	label: string;
+}
+
+describe('Lifecycle', () => {
+	describe('clearMock', () => {
+		it('should clear calls on nested auto-mocks and cached call results', () => {
+			const mock = createMock<ExecutionContext>();
+
+			mock.switchToHttp().getRequest.mockReturnValue({ headers: {} });
+			mock.switchToHttp().getRequest();
+
+			clearMock(mock);
+
+			expect(mock.switchToHttp).not.toHaveBeenCalled();
+			expect(mock.switchToHttp().getRequest).not.toHaveBeenCalled();
+			expect(mock.switchToHttp().getRequest()).toEqual({ headers: {} });
+		});
+
+		it('should clear calls on user-provided functions', () => {
+			const mock = createMock<ExecutionContext>({
+				getType: () => 'http',
+			});
+
+			mock.getType();
+			clearMock(mock);
+
+			expect(mock.getType).not.toHaveBeenCalled();
+			expect(mock.getType()).toBe('http');
+		});
+
+		it('should keep auto-generated children by default', () => {
+			const mock = createMock<ExecutionContext>();
+			const http = mock.switchToHttp();
+
+			clearMock(mock);
+
+			expect(mock.switchToHttp()).toBe(http);
+		});
+
+		it('should drop auto-generated children when requested', () => {
+			const mock = createMock<ExecutionContext>();
+			const switchToHttp = mock.switchToHttp;
+			const http = mock.switchToHttp();
+
+			clearMock(mock, { dropChildren: true });
+
+			expect(mock.switchToHttp).not.toBe(switchToHttp);
+			expect(mock.switchToHttp()).not.toBe(http);
+		});
+	});
+
+	describe('resetMock', () => {
+		it('should remove implementations from nested auto-mocks', () => {
+			const mock = createMock<ExecutionContext>();
+
+			mock.switchToHttp().getRequest.mockReturnValue({ headers: {} });
+
+			resetMock(mock);
+
+			expect(mock.switchToHttp().getRequest()).not.toEqual({ headers: {} });
+			expect(mock.switchToHttp().getRequest).toHaveBeenCalledTimes(1);
+		});
+
+		it('should bring user-provided functions back to their original implementation', () => {
+			const mock = createMock<ExecutionContext>({
+				getType: () => 'http',
+			});
+
+			mock.getType.mockReturnValue('rpc');
+			expect(mock.getType()).toBe('rpc');
+
+			resetMock(mock);
+
+			expect(mock.getType()).toBe('http');
+			expect(mock.getType).toHaveBeenCalledTimes(1);
+		});
+
+		it('should reset composed mocks', () => {
+			const execute = vi.fn<() => string>();
+			const inner = createMock<ExecutionContext>();
+			const mock = createMock<{
+				inner: ExecutionContext;
+				execute: () => string;
+			}>({ inner, execute });
+
+			mock.inner.getType.mockReturnValue('ws');
+			mock.execute.mockReturnValue('done');
+
+			resetMock(mock);
+
+			expect(inner.getType()).not.toBe('ws');
+			expect(execute()).toBeUndefined();
+		});
+	});
+
+	describe('restoreMock', () => {
+		it('should restore the original partial properties', () => {
+			const partial = { label: 'original', getType: () => 'http' };
+			const mock = createMock<ExecutionContext>(partial);
+
+			mock.label = 'changed';
+			Object.assign(mock, { getType: () => 'rpc' });
+
+			restoreMock(mock);
+
+			expect(mock.label).toBe('original');
+			expect(mock.getType()).toBe('http');
+			expect(partial.label).toBe('original');
+		});
+
+		it('should remove properties assigned after creation', () => {
+			const mock = createMock<Record<string, unknown>>({ foo: 1 });
+			const autoMocked = mock.nested;
+
+			mock.bar = 2;
+			mock.nested.value = 3;
+
+			restoreMock(mock);
+
+			expect(mock.foo).toBe(1);
+			expect(typeof mock.bar).toBe('function');
+			expect(mock.nested).toBe(autoMocked);
+			expect(typeof mock.nested.value).toBe('function');
+		});
+
+		it('should restore implementations of nested auto-mocks', () => {
+			const mock = createMock<ExecutionContext>();
+
+			mock.switchToHttp.mockReturnValue({
+				getRequest: () => ({ headers: {} }),
+			});
+
+			restoreMock(mock, { dropChildren: true });
+
+			expect(mock.switchToHttp).not.toHaveBeenCalled();
+			expect(mock.switchToHttp().getRequest).toBeDefined();
+			expect(mock.switchToHttp().getRequest()).not.toEqual({ headers: {} });
+		});
+	});
+
+	describe('sealMock', () => {
+		it('should keep existing members working', () => {
+			const mock = createMock<ExecutionContext>({ label: 'http' });
+
+			mock.getType.mockReturnValue('http');
+			mock.switchToHttp().getRequest.mockReturnValue({ headers: {} });
+
+			sealMock(mock);
+
+			expect(mock.label).toBe('http');
+			expect(mock.getType()).toBe('http');
+			expect(mock.switchToHttp().getRequest()).toEqual({ headers: {} });
+		});
+
+		it('should throw on auto-generation anywhere in the tree', () => {
+			// biome-ignore lint/suspicious/noExplicitAny: looseness needed for .nested property
+			const mock = createMock<Record<string, any>>();
+			mock.nested.deeply.method.mockReturnValue(1);
+
+			sealMock(mock);
+
+			expect(() => mock.other).toThrow(
+				'Property mock.other was accessed after the mock was sealed',
+			);
+			expect(() => mock.nested.deeply.missing).toThrow(
+				'Property mock.nested.deeply.missing was accessed after the mock was sealed',
+			);
+		});
+
+		it('should throw on getters of class mocks that were not read yet', () => {
+			class Session {
+				private readonly id = 1;
+
+				get user() {
+					return { id: this.id };
+				}
+
+				get token() {
+					return `token-${this.id}`;
+				}
+			}
+			const session = createMock(Session);
+			void session.user;
+
+			sealMock(session);
+
+			expect(session.user).toBeDefined();
+			expect(() => session.token).toThrow(
+				'Property Session.token was accessed after the mock was sealed',
+			);
+		});
+
+		it('should throw when an unstubbed call would generate a result', () => {
+			const mock = createMock<ExecutionContext>();
+			const getType = mock.getType;
+
+			sealMock(mock);
+
+			expect(() => getType()).toThrow(
+				'Method mock.getType was called after the mock was sealed without being explicitly stubbed',
+			);
+		});
+
+		it('should throw when adding new properties', () => {
+			const mock = createMock<Record<string, unknown>>({ foo: 1 });
+
+			sealMock(mock);
+			mock.foo = 2;
+
+			expect(mock.foo).toBe(2);
+			expect(() => {
+				mock.bar = 3;
+			}).toThrow('Property mock.bar cannot be added after the mock was sealed');
+		});
+
+		it('should keep sealed mocks usable in assertions', () => {
+			const mock = sealMock(createMock<ExecutionContext>({ label: 'http' }));
+			const fn = vi.fn();
+
+			fn(mock);
+
+			expect(fn).toHaveBeenCalledWith(mock);
+		});
+	});
+});
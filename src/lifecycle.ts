@@ -0,0 +1,168 @@
+import type { MockInstance } from 'vitest';
+import { vi } from 'vitest';
+import { forgetTestExpectations } from './expectations';
+import { forgetInteractions } from './journal';
+import { getMockState, walkMockStates } from './state';
+
+export type MockLifecycleOptions = {
+	/**
+	 * If true, forgets every auto-generated child (including cached call results) so
+	 * they are created afresh on next access (default: false)
+	 */
+	dropChildren?: boolean;
+};
+
+/**
+ * Applies `operation` to every vi.fn() owned by the proxies reachable from `mock`:
+ * the underlying function of auto-mocked members, the wrappers around
+ * user-provided implementations and mocked accessors.
+ */
+const forEachMockFn = (
+	mock: unknown,
+	operation: (fn: MockInstance) => void,
+	options: MockLifecycleOptions,
+) => {
+	forgetInteractions(mock);
+
+	walkMockStates(mock, (state) => {
+		state.accessed?.clear();
+		state.history?.splice(0);
+
+		if (state.fn) {
+			operation(state.fn);
+		}
+
+		for (const value of state.cache?.values() ?? []) {
+			if (!getMockState(value) && vi.isMockFunction(value)) {
+				operation(value);
+			}
+		}
+
+		for (const key of Reflect.ownKeys(state.target)) {
+			const descriptor = Object.getOwnPropertyDescriptor(state.target, key);
+
+			for (const accessor of [descriptor?.get, descriptor?.set]) {
+				if (vi.isMockFunction(accessor)) {
+					operation(accessor);
+				}
+			}
+		}
+
+		// Vitest forgets the instances too
+		state.instances = undefined;
+
+		if (options.dropChildren) {
+			for (const key of state.generated ?? []) {
+				state.cache?.delete(key);
+			}
+			state.generated?.clear();
+			state.stubbedResults?.clear();
+		}
+	});
+};
+
+/**
+ * Clears recorded calls, instances and results of every function in a mock tree,
+ * including nested auto-mocks and cached call results, and forgets the tree's
+ * interactions from its journal and its recorded property reads and writes.
+ * Implementations are kept.
+ *
+ * @param mock - A mock returned by `createMock`
+ * @param options - Optional lifecycle configuration
+ *
+ * @example
+ * ```typescript
+ * const ctx = createMock<ExecutionContext>();
+ * ctx.switchToHttp().getRequest();
+ *
+ * clearMock(ctx);
+ * expect(ctx.switchToHttp().getRequest).not.toHaveBeenCalled();
+ * ```
+ */
+export const clearMock = (
+	mock: unknown,
+	options: MockLifecycleOptions = {},
+): void => {
+	forEachMockFn(mock, (fn) => fn.mockClear(), options);
+};
+
+/**
+ * Resets every function in a mock tree: clears recorded calls and removes any
+ * implementation, return value or expectCall expectation configured since creation.
+ * Functions provided through `partial` go back to their original implementation.
+ *
+ * @param mock - A mock returned by `createMock`
+ * @param options - Optional lifecycle configuration
+ */
+export const resetMock = (
+	mock: unknown,
+	options: MockLifecycleOptions = {},
+): void => {
+	forEachMockFn(mock, (fn) => fn.mockReset(), options);
+	forgetTestExpectations(mock);
+};
+
+/**
+ * Restores a mock tree to the state it had when it was created. Every function is
+ * restored, properties assigned on the mock are removed and the `partial` object
+ * gets its original properties back.
+ *
+ * @param mock - A mock returned by `createMock`
+ * @param options - Optional lifecycle configuration
+ */
+export const restoreMock = (
+	mock: unknown,
+	options: MockLifecycleOptions = {},
+): void => {
+	forEachMockFn(mock, (fn) => fn.mockRestore(), options);
+	forgetTestExpectations(mock);
+
+	walkMockStates(mock, (state) => {
+		// Forget user-provided and assigned values so they are rebuilt from the
+		// restored target on next access
+		for (const key of [...(state.cache?.keys() ?? [])]) {
+			if (!state.generated?.has(key)) {
+				state.cache?.delete(key);
+			}
+		}
+
+		const { snapshot } = state;
+		if (!snapshot) {
+			return;
+		}
+
+		for (const key of Reflect.ownKeys(state.target)) {
+			if (!(key in snapshot)) {
+				Reflect.deleteProperty(state.target, key);
+			}
+		}
+
+		Object.defineProperties(state.target, snapshot);
+	});
+};
+
+/**
+ * Freezes the current shape of a mock tree. Members that already exist keep working
+ * and can still be stubbed, but any further auto-generation anywhere in the tree
+ * (reading a new property, or calling an unstubbed function whose result was never
+ * generated) throws an error naming the full dotted path.
+ *
+ * @param mock - A mock returned by `createMock`
+ * @returns The same mock, for chaining
+ *
+ * @example
+ * ```typescript
+ * const repo = createMock<UserRepository>();
+ * repo.findById.mockReturnValue(user);
+ * sealMock(repo);
+ *
+ * repo.findByEmail('a@b.c'); // throws: Property mock.findByEmail was accessed after the mock was sealed
+ * ```
+ */
+export const sealMock = <T>(mock: T): T => {
+	walkMockStates(mock, (state) => {
+		state.sealed = true;
+	});
+
+	return mock;
+};
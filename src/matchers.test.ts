@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import './matchers';
+import { clearMock } from './lifecycle';
+import { createMock } from './mocks';
+import { verifyNoMoreInteractions } from './verification';
+
+interface Request {
+	headers: Record<string, string>;
+}
+
+interface ExecutionContext {
+	switchToHttp: () => {
+		getRequest: (full?: boolean) => Request;
+	};
+	getType: () => string;
+	config: { timeout: number; retries: number };
+}
+
+describe('Matchers', () => {
+	describe('toHaveBeenCalledAtPath', () => {
+		it('should assert deep calls without recording new ones', () => {
+			const ctx = createMock<ExecutionContext>();
+
+			ctx.switchToHttp().getRequest(true);
+
+			expect(ctx).toHaveBeenCalledAtPath('switchToHttp');
+			expect(ctx).toHaveBeenCalledAtPath('switchToHttp().getRequest');
+			expect(ctx).toHaveBeenCalledAtPath('switchToHttp().getRequest', true);
+			expect(ctx).not.toHaveBeenCalledAtPath(
+				'switchToHttp().getRequest',
+				false,
+			);
+			expect(ctx.switchToHttp).toHaveBeenCalledTimes(1);
+		});
+
+		it('should fail on paths that were never reached', () => {
+			const ctx = createMock<ExecutionContext>();
+
+			expect(ctx).not.toHaveBeenCalledAtPath('switchToHttp().getRequest');
+			expect(() =>
+				expect(ctx).toHaveBeenCalledAtPath('switchToHttp().getRequest'),
+			).toThrow(
+				'Expected mock.switchToHttp().getRequest to have been called, but mock.switchToHttp was never accessed',
+			);
+			expect(ctx.switchToHttp).not.toHaveBeenCalled();
+		});
+
+		it('should list received calls on failure', () => {
+			const ctx = createMock<ExecutionContext>({}, { name: 'ctx' });
+
+			ctx.switchToHttp().getRequest(true);
+
+			expect(() =>
+				expect(ctx).toHaveBeenCalledAtPath('switchToHttp().getRequest', false),
+			).toThrow(
+				[
+					'Expected ctx.switchToHttp().getRequest(false) to have been called',
+					'Received calls:',
+					'  1. ctx.switchToHttp().getRequest(true)',
+				].join('\n'),
+			);
+		});
+
+		it('should mark the asserted calls as verified', () => {
+			const ctx = createMock<ExecutionContext>();
+
+			ctx.switchToHttp().getRequest();
+
+			expect(ctx).toHaveBeenCalledAtPath('switchToHttp');
+			expect(ctx).toHaveBeenCalledAtPath('switchToHttp().getRequest');
+			expect(() => verifyNoMoreInteractions(ctx)).not.toThrow();
+		});
+
+		it('should support user-provided functions', () => {
+			const ctx = createMock<ExecutionContext>({ getType: () => 'http' });
+
+			ctx.getType();
+
+			expect(ctx).toHaveBeenCalledAtPath('getType');
+		});
+	});
+
+	describe('toHaveBeenAccessed', () => {
+		it('should assert property reads', () => {
+			const ctx = createMock<ExecutionContext>();
+
+			void ctx.config.timeout;
+
+			expect(ctx).toHaveBeenAccessed('config');
+			expect(ctx).toHaveBeenAccessed('config.timeout');
+			expect(ctx).not.toHaveBeenAccessed('config.retries');
+			expect(ctx).not.toHaveBeenAccessed('getType');
+		});
+
+		it('should explain why untracked reads fail', () => {
+			const ctx = createMock<ExecutionContext>({
+				config: { timeout: 5, retries: 1 },
+			});
+
+			void ctx.config.timeout;
+
+			expect(() => expect(ctx).toHaveBeenAccessed('config.timeout')).toThrow(
+				'Expected mock.config.timeout to have been accessed, but mock.config is not a mock, so its reads are only tracked with trackProperties',
+			);
+			expect(ctx).toHaveBeenAccessed('config');
+		});
+
+		it('should assert reads below provided objects with trackProperties', () => {
+			const ctx = createMock<ExecutionContext>(
+				{ config: { timeout: 5, retries: 1 } },
+				{ trackProperties: true },
+			);
+
+			void ctx.config.timeout;
+
+			expect(ctx).toHaveBeenAccessed('config.timeout');
+			expect(ctx).not.toHaveBeenAccessed('config.retries');
+			expect(() => expect(ctx).toHaveBeenAccessed('config.retries')).toThrow(
+				'Expected mock.config.retries to have been accessed',
+			);
+		});
+
+		it('should forget reads when the mock is cleared', () => {
+			const ctx = createMock<ExecutionContext>();
+
+			void ctx.config;
+			clearMock(ctx);
+
+			expect(ctx).not.toHaveBeenAccessed('config');
+		});
+
+		it('should reject paths that end with a call', () => {
+			const ctx = createMock<ExecutionContext>();
+
+			expect(() => expect(ctx).toHaveBeenAccessed('switchToHttp()')).toThrow(
+				"toHaveBeenAccessed expects a path that ends with a property, received 'switchToHttp()'",
+			);
+		});
+	});
+
+	describe('toHaveNoUnstubbedCalls', () => {
+		it('should pass when every call was stubbed', () => {
+			const ctx = createMock<ExecutionContext>({ getType: () => 'http' });
+
+			ctx.getType();
+			ctx.switchToHttp.mockReturnValue({
+				getRequest: () => ({ headers: {} }),
+			});
+			ctx.switchToHttp();
+
+			expect(ctx).toHaveNoUnstubbedCalls();
+		});
+
+		it('should list calls that returned auto-generated mocks', () => {
+			const ctx = createMock<ExecutionContext>({}, { name: 'ctx' });
+
+			ctx.switchToHttp().getRequest(true);
+
+			expect(() => expect(ctx).toHaveNoUnstubbedCalls()).toThrow(
+				[
+					'Expected ctx to have no calls to unstubbed functions, but found 2 calls:',
+					'  1. ctx.switchToHttp()',
+					'  2. ctx.switchToHttp().getRequest(true)',
+				].join('\n'),
+			);
+		});
+	});
+
+	it('should reject values that are not mocks', () => {
+		expect(() => expect({}).toHaveNoUnstubbedCalls()).toThrow(
+			'toHaveNoUnstubbedCalls expects a mock created by createMock, received object',
+		);
+	});
+});
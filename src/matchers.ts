@@ -0,0 +1,225 @@
+import type { MockInstance } from 'vitest';
+import { expect, vi } from 'vitest';
+import { formatCall, formatInteractions, plural } from './format';
+import { collectInteractions, getFunctionInteractions } from './journal';
+import { matches } from './matching';
+import { joinPath, splitPath } from './paths';
+import { getPropertyHistory } from './properties';
+import { getMockFn, getMockState, type MockState } from './state';
+
+type MatchersObject = Parameters<typeof expect.extend>[0];
+
+/**
+ * Matchers for deep mocks. Paths are dotted property names where `()` stands for the
+ * value returned by a call, e.g. `'switchToHttp().getRequest'`.
+ */
+interface DeepMockMatchers<R = unknown> {
+	/**
+	 * Asserts that the function at `path` was called, with `args` if any are given.
+	 * Unlike `expect(mock.a().b).toHaveBeenCalled()`, walking the path does not call
+	 * or auto-generate anything.
+	 */
+	toHaveBeenCalledAtPath: (path: string, ...args: unknown[]) => R;
+	/**
+	 * Asserts that the property at the end of `path` has been read. Reads below plain
+	 * objects provided to the mock are only recorded with `trackProperties`.
+	 */
+	toHaveBeenAccessed: (path: string) => R;
+	/**
+	 * Asserts that no function in the mock tree was called without anything stubbed,
+	 * i.e. that no call returned an auto-generated mock.
+	 */
+	toHaveNoUnstubbedCalls: () => R;
+}
+
+declare module 'vitest' {
+	// biome-ignore lint/suspicious/noExplicitAny: must match Vitest's own declaration
+	interface Assertion<T = any> extends DeepMockMatchers<T> {}
+}
+
+/**
+ * Splits a path into the cache keys it walks: property names, and `__apply` for `()`.
+ */
+const parsePath = (path: string): PropertyKey[] =>
+	splitPath(path).map((segment) => (segment === '()' ? '__apply' : segment));
+
+/**
+ * Renders the first `count` keys of a parsed path.
+ */
+const formatKeys = (keys: PropertyKey[], count: number) =>
+	keys
+		.slice(0, count)
+		.map((key) => (key === '__apply' ? '()' : `.${key.toString()}`))
+		.join('');
+
+/**
+ * Follows `keys` through the children a mock has already created, without reading
+ * through the proxies (which would auto-generate members).
+ *
+ * @returns The value at the end of the path, or how many keys could be followed
+ */
+const resolvePath = (
+	mock: unknown,
+	keys: PropertyKey[],
+): { found: true; value: unknown } | { found: false; reached: number } => {
+	let value = mock;
+
+	for (const [index, key] of keys.entries()) {
+		const state = getMockState(value);
+
+		if (!state?.cache?.has(key)) {
+			return { found: false, reached: index };
+		}
+
+		value = state.cache.get(key);
+	}
+
+	return { found: true, value };
+};
+
+const getRootState = (received: unknown, matcher: string): MockState => {
+	const state = getMockState(received);
+
+	if (!state) {
+		throw new TypeError(
+			`${matcher} expects a mock created by createMock, received ${typeof received}`,
+		);
+	}
+
+	return state;
+};
+
+/**
+ * Matchers that inspect a mock tree without triggering its proxies. Registered on
+ * import of `vitest-create-mock/matchers`, or manually with `expect.extend`.
+ */
+export const mockMatchers: MatchersObject = {
+	toHaveBeenCalledAtPath(received: unknown, path: string, ...args: unknown[]) {
+		const root = getRootState(received, 'toHaveBeenCalledAtPath');
+		const keys = parsePath(path);
+		const fullPath = joinPath(root.name, path);
+		const expectation = args.length > 0 ? formatCall(fullPath, args) : fullPath;
+		const resolved = resolvePath(received, keys);
+
+		if (!resolved.found) {
+			const reached = `${root.name}${formatKeys(keys, resolved.reached + 1)}`;
+
+			return {
+				pass: false,
+				message: () =>
+					`Expected ${expectation} to have been called, but ${reached} was never ${keys[resolved.reached] === '__apply' ? 'called' : 'accessed'}`,
+			};
+		}
+
+		const state = getMockState(resolved.value);
+		const fn: MockInstance | undefined =
+			(state && getMockFn(state)) ??
+			(vi.isMockFunction(resolved.value) ? resolved.value : undefined);
+
+		if (!fn) {
+			return {
+				pass: false,
+				message: () => `Expected ${fullPath} to be a mocked function`,
+			};
+		}
+
+		const calls = fn.mock.calls.filter(
+			(call) => args.length === 0 || matches(args, call),
+		);
+		const pass = calls.length > 0;
+
+		if (pass && !this.isNot && state) {
+			for (const interaction of getFunctionInteractions(state)) {
+				if (args.length === 0 || matches(args, interaction.args)) {
+					interaction.verified = true;
+				}
+			}
+		}
+
+		return {
+			pass,
+			message: () =>
+				[
+					`Expected ${expectation} ${pass ? 'not ' : ''}to have been called`,
+					'Received calls:',
+					...(fn.mock.calls.length > 0
+						? fn.mock.calls.map(
+								(call, index) =>
+									`  ${index + 1}. ${formatCall(fullPath, call)}`,
+							)
+						: ['  (none)']),
+				].join('\n'),
+		};
+	},
+
+	toHaveBeenAccessed(received: unknown, path: string) {
+		const root = getRootState(received, 'toHaveBeenAccessed');
+		const keys = parsePath(path);
+		const fullPath = joinPath(root.name, path);
+		const property = keys.at(-1);
+
+		if (property === undefined || property === '__apply') {
+			throw new TypeError(
+				`toHaveBeenAccessed expects a path that ends with a property, received '${path}'`,
+			);
+		}
+
+		const resolved = resolvePath(received, keys.slice(0, -1));
+		const parent = resolved.found ? getMockState(resolved.value) : undefined;
+
+		// Reads below the plain objects provided to a mock are only recorded in its
+		// property history, see getPropertyHistory
+		if ((!resolved.found || !parent) && root.history) {
+			const pass = getPropertyHistory(received, path).some(
+				(access) => access.type === 'get',
+			);
+
+			return {
+				pass,
+				message: () =>
+					`Expected ${fullPath} ${pass ? 'not ' : ''}to have been accessed`,
+			};
+		}
+
+		if (!resolved.found || !parent) {
+			const reached = resolved.found
+				? `${root.name}${formatKeys(keys, keys.length - 1)} is not a mock, so its reads are only tracked with trackProperties`
+				: `${root.name}${formatKeys(keys, resolved.reached + 1)} was never reached`;
+
+			return {
+				pass: false,
+				message: () =>
+					`Expected ${fullPath} to have been accessed, but ${reached}`,
+			};
+		}
+
+		const pass = parent.accessed?.has(property) ?? false;
+
+		return {
+			pass,
+			message: () =>
+				`Expected ${fullPath} ${pass ? 'not ' : ''}to have been accessed`,
+		};
+	},
+
+	toHaveNoUnstubbedCalls(received: unknown) {
+		const root = getRootState(received, 'toHaveNoUnstubbedCalls');
+		const unstubbed = collectInteractions(received).filter(
+			(interaction) => interaction.autoMocked,
+		);
+		const pass = unstubbed.length === 0;
+
+		return {
+			pass,
+			message: () =>
+				pass
+					? `Expected ${root.name} to have calls to unstubbed functions, but found none`
+					: [
+							`Expected ${root.name} to have no calls to unstubbed functions, but found ${plural(unstubbed.length, 'call')}:`,
+							...formatInteractions(unstubbed),
+						].join('\n'),
+		};
+	},
+};
+
+expect.extend(mockMatchers);
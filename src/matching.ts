@@ -0,0 +1,78 @@
+import { getMockState } from './state';
+
+const isAsymmetricMatcher = (
+	value: unknown,
+): value is { asymmetricMatch: (other: unknown) => boolean } =>
+	typeof value === 'object' &&
+	value !== null &&
+	typeof (value as { asymmetricMatch?: unknown }).asymmetricMatch ===
+		'function';
+
+const isObject = (value: unknown): value is Record<PropertyKey, unknown> =>
+	typeof value === 'object' && value !== null;
+
+const definedKeys = (value: Record<PropertyKey, unknown>) =>
+	Object.keys(value).filter((key) => value[key] !== undefined);
+
+/**
+ * Recursive equality used to match call arguments, close to Vitest's `toEqual`.
+ * Asymmetric matchers such as `expect.any(Number)` may appear anywhere in the
+ * expected value. Mocks only ever equal themselves, so comparing never reads
+ * (and auto-generates) their members.
+ */
+export const matches = (expected: unknown, actual: unknown): boolean => {
+	if (isAsymmetricMatcher(expected)) {
+		return expected.asymmetricMatch(actual);
+	}
+
+	if (Object.is(expected, actual)) {
+		return true;
+	}
+
+	if (
+		!isObject(expected) ||
+		!isObject(actual) ||
+		getMockState(expected) ||
+		getMockState(actual) ||
+		Object.getPrototypeOf(expected) !== Object.getPrototypeOf(actual)
+	) {
+		return false;
+	}
+
+	if (Array.isArray(expected) && Array.isArray(actual)) {
+		return (
+			expected.length === actual.length &&
+			expected.every((value, index) => matches(value, actual[index]))
+		);
+	}
+
+	if (expected instanceof Date && actual instanceof Date) {
+		return expected.getTime() === actual.getTime();
+	}
+
+	if (expected instanceof Map && actual instanceof Map) {
+		return (
+			expected.size === actual.size &&
+			[...expected].every(
+				([key, value]) => actual.has(key) && matches(value, actual.get(key)),
+			)
+		);
+	}
+
+	if (expected instanceof Set && actual instanceof Set) {
+		return (
+			expected.size === actual.size &&
+			[...expected].every((value) =>
+				[...actual].some((other) => matches(value, other)),
+			)
+		);
+	}
+
+	// Like toEqual, properties set to undefined count as missing
+	const expectedKeys = definedKeys(expected);
+
+	return (
+		expectedKeys.length === definedKeys(actual).length &&
+		expectedKeys.every((key) => matches(expected[key], actual[key]))
+	);
+};
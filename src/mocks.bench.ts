@@ -0,0 +1,125 @@
+import { bench, describe } from 'vitest';
+import { clearMock } from './lifecycle';
+import { createMock } from './mocks';
+
+interface Request {
+	headers: Record<string, string>;
+	user: { id: number; roles: string[] };
+}
+
+interface ExecutionContext {
+	getType: () => string;
+	switchToHttp: () => { getRequest: () => Request };
+	getHandler: () => () => void;
+	getClass: () => unknown;
+}
+
+class UserRepository {
+	findById(_id: number) {}
+	findByEmail(_email: string) {}
+	findAll() {}
+	save(_user: object) {}
+	update(_id: number, _user: object) {}
+	delete(_id: number) {}
+	count() {}
+	get connection() {
+		return undefined;
+	}
+}
+
+/**
+ * Retained heap per mock: creates `count` mocks, keeps them alive and compares the
+ * heap after garbage collection. Needs `--expose-gc`, see vitest.config.ts.
+ */
+const measureHeap = (create: () => unknown, count = 2000) => {
+	const gc = (globalThis as { gc?: () => void }).gc;
+
+	if (!gc) {
+		return Number.NaN;
+	}
+
+	gc();
+	const before = process.memoryUsage().heapUsed;
+	const kept = Array.from({ length: count }, create);
+	gc();
+	const after = process.memoryUsage().heapUsed;
+
+	return kept.length > 0 ? Math.round((after - before) / count) : 0;
+};
+
+describe('creation', () => {
+	bench('createMock<T>()', () => {
+		createMock<ExecutionContext>();
+	});
+
+	bench('createMock<T>(partial)', () => {
+		createMock<ExecutionContext>({ getType: () => 'http', getClass: () => 1 });
+	});
+
+	bench('createMock(Class)', () => {
+		createMock(UserRepository);
+	});
+});
+
+describe('deep access', () => {
+	const ctx = createMock<ExecutionContext>();
+	ctx.switchToHttp().getRequest().user.roles;
+
+	bench('first access of a nested member', () => {
+		createMock<ExecutionContext>().switchToHttp().getRequest().user.roles;
+	});
+
+	bench('cached access of a nested member', () => {
+		ctx.switchToHttp().getRequest().user.roles;
+	});
+});
+
+describe('calls', () => {
+	const ctx = createMock<ExecutionContext>({ getType: () => 'http' });
+	ctx.getClass.mockReturnValue(UserRepository);
+
+	const teardown = () => {
+		clearMock(ctx);
+	};
+
+	bench(
+		'auto-mocked call',
+		() => {
+			ctx.switchToHttp();
+		},
+		{ teardown },
+	);
+
+	bench(
+		'stubbed call',
+		() => {
+			ctx.getClass();
+		},
+		{ teardown },
+	);
+
+	bench(
+		'provided function call',
+		() => {
+			ctx.getType();
+		},
+		{ teardown },
+	);
+});
+
+// Reported once, when the suite is collected: benchmarks only time their tasks
+console.table({
+	'createMock<T>()': {
+		'bytes per mock': measureHeap(() => createMock<ExecutionContext>()),
+	},
+	'createMock<T>() with a nested member read': {
+		'bytes per mock': measureHeap(() => {
+			const ctx = createMock<ExecutionContext>();
+			ctx.switchToHttp().getRequest().user.roles;
+			return ctx;
+		}),
+	},
+	'createMock(Class)': {
+		'bytes per mock': measureHeap(() => createMock(UserRepository)),
+	},
+});
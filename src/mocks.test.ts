@@ -1,5 +1,7 @@
 import type { Mock } from 'vitest';
 import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { getInteractions } from './journal';
+import { clearMock } from './lifecycle';
 import { createMock } from './mocks';
 
 interface TestInterface {
@@ -479,6 +481,381 @@ describe('Mocks', () => {
 				mock.func.mockReturnValue(true);
 				expect(mock.func(1, 'test')).toBe(true);
 			});
+
+			it('should throw when reading an unstubbed property in access mode', () => {
+				const mock = createMock<TestInterface>(
+					{ someNum: 1, func: () => true },
+					{ strict: 'access' },
+				);
+
+				expect(mock.someNum).toBe(1);
+				expect(mock.func(1, 'test')).toBe(true);
+				expect(() => mock.someBool).toThrow(
+					'Property mock.someBool was accessed without being explicitly stubbed',
+				);
+			});
+
+			it('should name the full path when reading deeply in access mode', () => {
+				const nested = createMock<TestInterface['nested']>(
+					{},
+					{ name: 'mock.nested', strict: 'access' },
+				);
+				const mock = createMock<TestInterface>(
+					{ nested },
+					{ strict: 'access' },
+				);
+
+				expect(() => mock.nested.func4).toThrow(
+					'Property mock.nested.func4 was accessed without being explicitly stubbed',
+				);
+			});
+
+			it('should allow assigned properties in access mode', () => {
+				const mock = createMock<TestInterface>({}, { strict: 'access' });
+
+				mock.someNum = 42;
+				mock.someBool = true;
+
+				expect(mock.someNum).toBe(42);
+				expect(mock.someBool).toBe(true);
+			});
+
+			it('should keep access mode mocks usable in assertions', () => {
+				const mock = createMock<TestInterface>(
+					{ someNum: 1 },
+					{ strict: 'access' },
+				);
+				const fn = vi.fn();
+
+				fn(mock);
+
+				expect(fn).toHaveBeenCalledWith(mock);
+				expect(mock).toEqual({ someNum: 1 });
+			});
+
+			it('should throw for undeclared class members in access mode', () => {
+				const mock = createMock(TestClass, {}, { strict: 'access' });
+
+				expect(vi.isMockFunction(mock.someMethod)).toBe(true);
+				// biome-ignore lint/suspicious/noExplicitAny: accessing an undeclared member
+				expect(() => (mock as any).otherMethod).toThrow(
+					'Property TestClass.otherMethod was accessed without being explicitly stubbed',
+				);
+			});
+		});
+	});
+
+	describe('class mocks', () => {
+		class BaseRepository {
+			count() {
+				return 0;
+			}
+		}
+
+		class UserRepository extends BaseRepository {
+			private connection = 'db';
+
+			findById(id: number): { id: number; name: string } | null {
+				return id === 0 ? null : { id, name: this.connection };
+			}
+
+			save(_user: { id: number }) {}
+
+			get config(): { timeout: number } {
+				return { timeout: 1000 };
+			}
+
+			set label(_value: string) {}
+		}
+
+		it('should pass instanceof checks', () => {
+			const mock = createMock(UserRepository);
+
+			expect(mock).toBeInstanceOf(UserRepository);
+			expect(mock).toBeInstanceOf(BaseRepository);
+		});
+
+		it('should stub own and inherited methods upfront', () => {
+			const mock = createMock(UserRepository);
+
+			expect(Object.keys(mock)).toEqual(
+				expect.arrayContaining(['findById', 'save', 'count', 'config']),
+			);
+			expect(vi.isMockFunction(mock.count)).toBe(true);
+
+			mock.findById.mockReturnValueOnce({ id: 1, name: 'Alice' });
+
+			expect(mock.findById(1)).toEqual({ id: 1, name: 'Alice' });
+			expect(mock.findById).toHaveBeenCalledWith(1);
+		});
+
+		it('should never call the real implementation', () => {
+			const findById = vi.spyOn(UserRepository.prototype, 'findById');
+			const mock = createMock(UserRepository);
+
+			mock.findById(1);
+
+			expect(findById).not.toHaveBeenCalled();
+			findById.mockRestore();
+		});
+
+		it('should let partial members take precedence over the stubs', () => {
+			const mock = createMock(UserRepository, { count: () => 3 });
+
+			expect(mock.count()).toBe(3);
+			expect(mock.count).toHaveBeenCalledTimes(1);
+		});
+
+		it('should mock getters and setters', () => {
+			const mock = createMock(UserRepository);
+
+			expect(mock.config).toBe(mock.config);
+			expect(mock.config.timeout).toBeDefined();
+
+			vi.spyOn(mock, 'config', 'get').mockReturnValue({ timeout: 5 });
+			expect(mock.config).toEqual({ timeout: 5 });
+
+			const setter = Object.getOwnPropertyDescriptor(mock, 'label')?.set;
+			mock.label = 'users';
+			expect(setter).toHaveBeenCalledWith('users');
+		});
+
+		it('should name mocks after the class', () => {
+			const mock = createMock(UserRepository, {}, { strict: true });
+
+			expect(() => mock.save({ id: 1 })).toThrow(
+				'Method UserRepository.save was called without being explicitly stubbed',
+			);
+		});
+
+		it('should only expose declared members in strict mode', () => {
+			const mock = createMock(UserRepository, {}, { strict: true });
+
+			// biome-ignore lint/suspicious/noExplicitAny: accessing an undeclared member
+			expect((mock as any).findByEmail).toBeUndefined();
+			expect(vi.isMockFunction(mock.findById)).toBe(true);
+		});
+
+		it('should auto mock undeclared members when not strict', () => {
+			const mock = createMock(UserRepository);
+
+			// biome-ignore lint/suspicious/noExplicitAny: accessing an undeclared member
+			expect(typeof (mock as any).findByEmail).toBe('function');
+		});
+
+		it('should be typed from the class instance', () => {
+			const mock = createMock(UserRepository);
+
+			expectTypeOf(mock.findById).toExtend<Mock>();
+			expectTypeOf(mock.findById).parameters.toEqualTypeOf<[number]>();
+		});
+	});
+
+	describe('callable mocks', () => {
+		type FetchUser = (id: string) => Promise<{ id: string; name: string }>;
+
+		interface HttpClient {
+			(url: string): Promise<{ status: number }>;
+			get: (url: string) => Promise<{ status: number }>;
+			defaults: { timeout: number };
+		}
+
+		it('should make the root callable with the callable option', async () => {
+			const fetchUser = createMock<FetchUser>({}, { callable: true });
+
+			fetchUser.mockResolvedValue({ id: '1', name: 'Alice' });
+
+			await expect(fetchUser('1')).resolves.toEqual({ id: '1', name: 'Alice' });
+			expect(fetchUser).toHaveBeenCalledWith('1');
+		});
+
+		it('should require the callable option for function types at compile time', () => {
+			// @ts-expect-error function types need a function partial or callable: true
+			createMock<FetchUser>();
+			// @ts-expect-error function types need a function partial or callable: true
+			createMock<HttpClient>({ defaults: { timeout: 1 } });
+
+			expectTypeOf(
+				createMock<FetchUser>(async (id) => ({ id, name: 'Bob' })),
+			).toEqualTypeOf(createMock<FetchUser>({}, { callable: true }));
+		});
+
+		it('should auto-mock the return value of unstubbed calls', () => {
+			const fn = createMock<() => { getName: () => string }>(
+				{},
+				{ callable: true },
+			);
+
+			fn().getName.mockReturnValue('Alice');
+
+			expect(fn().getName()).toBe('Alice');
+			expect(fn()).toBe(fn());
+		});
+
+		it('should use a function partial as the implementation', () => {
+			const fetchUser = createMock<FetchUser>(async (id) => ({
+				id,
+				name: 'Bob',
+			}));
+
+			fetchUser.calledWith('1').mockResolvedValue({ id: '1', name: 'Alice' });
+
+			return Promise.all([
+				expect(fetchUser('1')).resolves.toEqual({ id: '1', name: 'Alice' }),
+				expect(fetchUser('2')).resolves.toEqual({ id: '2', name: 'Bob' }),
+			]);
+		});
+
+		it('should mock hybrid APIs that are callable and have properties', async () => {
+			const http = createMock<HttpClient>(
+				{ defaults: { timeout: 5 } },
+				{ callable: true, name: 'http' },
+			);
+
+			http.mockResolvedValue({ status: 200 });
+			http.get.mockResolvedValue({ status: 404 });
+
+			await expect(http('/users')).resolves.toEqual({ status: 200 });
+			await expect(http.get('/missing')).resolves.toEqual({ status: 404 });
+			expect(http.defaults.timeout).toBe(5);
+			expect(http).toHaveBeenCalledOnce();
+			expect(http.get).toHaveBeenCalledWith('/missing');
+		});
+
+		it('should take properties from a function partial', () => {
+			const http = createMock<HttpClient>(
+				Object.assign(async () => ({ status: 201 }), {
+					defaults: { timeout: 1 },
+				}),
+			);
+
+			expect(http.defaults.timeout).toBe(1);
+			expect(typeof http.get).toBe('function');
+		});
+
+		it('should honour strict mode', () => {
+			const fn = createMock<() => string>({}, { callable: true, strict: true });
+
+			expect(() => fn()).toThrow(
+				'Method mock was called without being explicitly stubbed',
+			);
+		});
+
+		it('should be typed as a mocked function', () => {
+			const http = createMock<HttpClient>({}, { callable: true });
+
+			expectTypeOf(http).toExtend<Mock>();
+			expectTypeOf(http).parameters.toEqualTypeOf<[string]>();
+			expectTypeOf(http.get).toExtend<Mock>();
+			expectTypeOf(http.defaults.timeout).toBeNumber();
+		});
+	});
+
+	describe('constructible mocks', () => {
+		class Client {
+			constructor(readonly url: string) {}
+
+			connect(): Promise<{ query: (sql: string) => number[] }> {
+				throw new Error('not implemented');
+			}
+		}
+
+		interface Database {
+			Client: typeof Client;
+		}
+
+		it('should return a deep mock from new', () => {
+			const db = createMock<Database>();
+
+			const client = new db.Client('postgres://');
+			client.connect.mockResolvedValue({ query: () => [1] });
+
+			expect(client.connect).not.toHaveBeenCalled();
+			expect(client).toBeInstanceOf(db.Client);
+			expect(db.Client).toHaveBeenCalledWith('postgres://');
+		});
+
+		it('should record every instance', async () => {
+			const db = createMock<Database>();
+
+			const first = new db.Client('a');
+			const second = new db.Client('b');
+			await first.connect();
+
+			expect(db.Client.mock.instances).toEqual([first, second]);
+			expect(db.Client.mock.instances[0]?.connect).toHaveBeenCalledOnce();
+			expect(db.Client.mock.instances[1]?.connect).not.toHaveBeenCalled();
+			expect(second).not.toBe(first);
+		});
+
+		it('should use an implementation when one is given', () => {
+			const db = createMock<Database>();
+
+			db.Client.mockImplementation(
+				class extends Client {
+					override connect() {
+						return Promise.resolve({ query: () => [] });
+					}
+				},
+			);
+
+			expect(new db.Client('a').url).toBe('a');
+		});
+
+		it('should honour strict mode', () => {
+			const db = createMock<Database>({}, { strict: true });
+
+			expect(() => new db.Client('a')).toThrow(
+				'Constructor mock.Client was called without being explicitly stubbed',
+			);
+		});
+
+		it('should include instances in lifecycle operations and the journal', () => {
+			const db = createMock<Database>({}, { name: 'db' });
+
+			const client = new db.Client('a');
+			client.connect();
+
+			expect(getInteractions(db).map(({ name }) => name)).toEqual([
+				'new db.Client',
+				'new db.Client().connect',
+			]);
+
+			clearMock(db);
+
+			expect(client.connect).not.toHaveBeenCalled();
+			expect(db.Client.mock.instances).toEqual([]);
+		});
+
+		it('should type instances from the class', () => {
+			const db = createMock<Database>();
+
+			expectTypeOf(new db.Client('a').connect).toExtend<Mock>();
+			expectTypeOf(db.Client.mock.instances).items.toHaveProperty('connect');
+			expectTypeOf(db.Client.mock.instances).items.not.toEqualTypeOf<Client>();
+			expectTypeOf(db.Client).constructorParameters.toEqualTypeOf<[string]>();
+		});
+	});
+
+	describe('members that were never called', () => {
+		it('should behave as mocked functions', () => {
+			const mock = createMock<TestInterface>();
+
+			expect(vi.isMockFunction(mock.nested.func4)).toBe(true);
+			expect(mock.nested.func4).not.toHaveBeenCalled();
+			expect(mock.nested.func4.mock.calls).toEqual([]);
+			expect(mock.nested.func4.getMockImplementation()).toBeUndefined();
+		});
+
+		it('should keep the Mock API state once called', () => {
+			const mock = createMock<TestInterface>();
+			const { calls } = mock.func.mock;
+
+			mock.func.mockReturnValue(true);
+
+			expect(mock.func(1, 'a')).toBe(true);
+			expect(mock.func.mock.calls).toBe(calls);
+			expect(calls).toEqual([[1, 'a']]);
 		});
 	});
 
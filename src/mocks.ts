@@ -1,5 +1,53 @@
-import type { Mock } from 'vitest';
+import type { Mock, MockContext as VitestMockContext } from 'vitest';
 import { vi } from 'vitest';
+import {
+	type CalledWithStub,
+	callWithImplementation,
+	createCalledWith,
+	findArgumentStub,
+} from './called-with';
+import { applyMockConfig, prefixMockName } from './config';
+import {
+	createDeferredHelper,
+	type DeferredCall,
+	type DeferredCalls,
+	deferredHelperNames,
+} from './deferred';
+import {
+	addExpectation,
+	isCallExpectation,
+	type MockExpectations,
+} from './expectations';
+import {
+	attachInspector,
+	inspectorDescriptor,
+	inspectSymbol,
+	mockApiKeys,
+} from './inspect';
+import {
+	createIteratorMock,
+	createYieldHelper,
+	type IteratorSymbol,
+	isIteratorSymbol,
+	type YieldHelpersOf,
+	yieldHelperNames,
+} from './iterables';
+import {
+	globalJournal,
+	type InteractionJournal,
+	nextSequence,
+	recordInteraction,
+} from './journal';
+import { registerMock } from './registry';
+import { toPlainObject } from './serialization';
+import {
+	getMockFn,
+	getMockState,
+	type MockContext,
+	type MockState,
+	registerMockState,
+} from './state';
+import { reportStrictViolation } from './strict';
 
 /**
  * Recursively makes all properties of a type optional and applies the same transformation
@@ -23,7 +71,19 @@ type DeepPartial<T> = {
  * - Non-function properties can be partial values OR already-mocked DeepMocked objects
  * This dual support prevents double-wrapping and allows flexible mock composition.
  */
-export type PartialFuncReturn<T> = {
+export type PartialFuncReturn<T> = [T] extends [AnyFunction]
+	? PartialProperties<T> | PartialFunction<T>
+	: PartialProperties<T>;
+
+/**
+ * Implementation of a mocked function type, with its properties.
+ */
+type PartialFunction<T extends AnyFunction> = ((
+	...args: Parameters<T>
+) => PartialFuncReturn<ReturnType<T>>) &
+	PartialProperties<T>;
+
+type PartialProperties<T> = {
 	[K in keyof T]?: T[K] extends (...args: infer A) => infer U
 		? ((...args: A) => PartialFuncReturn<U>) | DeepMocked<T[K]>
 		: DeepPartial<T[K]> | DeepMocked<T[K]>;
@@ -43,18 +103,57 @@ export type PartialFuncReturn<T> = {
 // biome-ignore lint/complexity/noBannedTypes: {} intentionally used to detect unknown type
 type IsUnknown<T> = unknown extends T ? (T extends {} ? false : true) : false;
 
+/**
+ * Helper to detect `any`: only `any` lets `1 & T` widen to accept `0`.
+ */
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+// biome-ignore lint/suspicious/noExplicitAny: generic constraint for any function signature
+type AnyFunction = (...args: any[]) => any;
+
 /**
  * Helper type for mocked functions with deep mocked return types.
  * Wraps a function so that:
  * - It maintains the same parameters as the original function
  * - Its return type is deeply mocked (enabling chained mock access like `mock.getUser().getName()`)
  * - It includes all Vitest Mock methods (mockImplementation, mockReturnValue, etc.)
+ * - It supports argument-matched stubbing through `calledWith(...args)`
+ * - Properties declared on the function type (hybrid APIs like axios) are deeply mocked too
+ * - Functions returning an iterable or async iterable get yield helpers (`mockYield`)
+ * - Calls can return promises settled by the test (`mockDeferred`), resolving with a
+ *   value or the deep mock of the resolved type
  */
 // biome-ignore lint/suspicious/noExplicitAny: generic constraint for any function signature
-type MockedFunction<T extends (...args: any[]) => any> = ((
+export type MockedFunction<T extends (...args: any[]) => any> = ((
 	...args: Parameters<T>
 ) => DeepMocked<ReturnType<T>>) &
-	Mock<T>;
+	Mock<T> &
+	DeepMockedProperties<T> &
+	YieldHelpersOf<ReturnType<T>> & {
+		/**
+		 * Stubs the function for calls whose arguments match `args`. Arguments are
+		 * compared deeply and may be Vitest asymmetric matchers (`expect.any(Number)`).
+		 * Calls that match no stub fall back to the regular mock behaviour.
+		 */
+		calledWith: (
+			...args: Parameters<T>
+		) => CalledWithStub<T, MockedFunction<T>>;
+		/**
+		 * Makes every call return a promise that stays pending until the test settles it
+		 * through the handle of the call, see DeferredCalls.
+		 */
+		mockDeferred: () => DeferredCalls<DeferredValue<T>, Parameters<T>>;
+		/** Like mockDeferred, for the next call only, returning its handle upfront */
+		mockDeferredOnce: () => DeferredCall<DeferredValue<T>, Parameters<T>>;
+	};
+
+/**
+ * Value a deferred call of T resolves with: the resolved type, or its deep mock.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: generic constraint for any function signature
+type DeferredValue<T extends (...args: any[]) => any> =
+	| Awaited<ReturnType<T>>
+	| DeepMocked<Awaited<ReturnType<T>>>;
 
 /**
  * Recursively transforms a type into a deeply mocked version.
@@ -77,8 +176,50 @@ type MockedFunction<T extends (...args: any[]) => any> = ((
  *
  * 4. Primitives (string, number, boolean, etc.):
  *    - Left as-is since they can't have nested properties
+ *
+ * A function type itself becomes a MockedFunction, so callable root mocks keep their
+ * call signature, and a class type becomes a MockedClass. Iterable and async iterable
+ * objects get yield helpers (`mockYield`, `mockAsyncYield`).
+ */
+export type DeepMocked<T> =
+	IsAny<T> extends true
+		? DeepMockedProperties<T>
+		: [T] extends [never]
+			? never
+			: [T] extends [AnyFunction]
+				? MockedFunction<T>
+				: [T] extends [Constructor]
+					? MockedClass<T>
+					: DeepMockedProperties<T> & YieldHelpersOf<T>;
+
+/**
+ * Non-abstract form of a class type, as Vitest's Mock expects.
+ */
+type Concrete<T extends Constructor> = new (
+	...args: ConstructorParameters<T>
+) => InstanceType<T>;
+
+/**
+ * Helper type for mocked classes (constructors):
+ * - `new` returns a deeply mocked instance, unless an implementation is provided
+ * - `mock.instances` holds those deep mocks, so `mock.instances[0].connect` is mocked too
+ * - Static members are deeply mocked
+ */
+export type MockedClass<T extends Constructor> = (new (
+	...args: ConstructorParameters<T>
+) => DeepMocked<InstanceType<T>>) &
+	Omit<Mock<Concrete<T>>, 'mock'> &
+	DeepMockedProperties<T> & {
+		mock: Omit<VitestMockContext<Concrete<T>>, 'instances' | 'contexts'> & {
+			instances: DeepMocked<InstanceType<T>>[];
+			contexts: DeepMocked<InstanceType<T>>[];
+		};
+	};
+
+/**
+ * The deeply mocked properties of T, see DeepMocked.
  */
-export type DeepMocked<T> = {
+type DeepMockedProperties<T> = {
 	[K in keyof T]: IsUnknown<T[K]> extends true
 		? // biome-ignore lint/suspicious/noExplicitAny: unknown types become any for proxy support
 			any
@@ -121,124 +262,985 @@ const vitestFnProps = new Set([
 ]);
 
 /**
- * Creates a Proxy that enables deep mocking with automatic property generation.
+ * Properties that always read as undefined, so that mocks are not mistaken for
+ * something else. Extended through `MockOptions.ignoredProps`.
+ * - 'inspect': legacy Node.js inspection
+ * - 'then': prevents mocks from being treated as Promises
+ * - 'asymmetricMatch': prevents interference with Vitest's asymmetric matchers
+ */
+const defaultIgnoredProps: PropertyKey[] = [
+	'inspect',
+	'then',
+	'asymmetricMatch',
+];
+
+/**
+ * Property names that libraries (Vitest's equality checks, pretty-format, React, Immutable)
+ * probe to sniff an object's kind. When a mock refuses to auto-generate members, these
+ * resolve to undefined instead of throwing so mocks stay usable in assertions.
+ */
+const probedProps = new Set([
+	'$$typeof',
+	'@@__IMMUTABLE_ITERABLE__@@',
+	'@@__IMMUTABLE_KEYED__@@',
+	'@@__IMMUTABLE_ORDERED__@@',
+	'@@__IMMUTABLE_RECORD__@@',
+	'_isMockFunction',
+	'nodeName',
+	'nodeType',
+	'toJSON',
+]);
+
+/**
+ * How strictly a mock treats members that were not explicitly stubbed:
+ * - `false`: everything is auto-mocked
+ * - `true`: calling an unstubbed method throws
+ * - `'access'`: additionally, reading a property that was neither provided nor stubbed throws
+ * - `'warn'`: calling an unstubbed method is recorded as a violation instead of throwing,
+ *   see getStrictViolations, and auto-mocked as with `false`
+ */
+export type Strictness = boolean | 'access' | 'warn';
+
+/**
+ * Whether a mock records reads and writes of its data properties:
+ * - `false`: nothing is recorded
+ * - `true`: every read and write is recorded, see getPropertyHistory
+ * - `'accessors'`: additionally, data properties become vi.fn() getters and setters,
+ *   so `vi.spyOn(mock, 'prop', 'get').mockReturnValue(...)` works on them
+ */
+export type PropertyTracking = boolean | 'accessors';
+
+/**
+ * Turns a plain data property into mocked accessors over the same value. Functions,
+ * mocks and read-only properties are left alone.
+ */
+const toMockedAccessor = (target: object, key: PropertyKey) => {
+	const descriptor = Object.getOwnPropertyDescriptor(target, key);
+
+	if (
+		!descriptor ||
+		!('value' in descriptor) ||
+		!descriptor.writable ||
+		!descriptor.configurable ||
+		typeof descriptor.value === 'function' ||
+		getMockState(descriptor.value)
+	) {
+		return;
+	}
+
+	let value = descriptor.value;
+
+	Object.defineProperty(target, key, {
+		configurable: true,
+		enumerable: descriptor.enumerable,
+		get: vi.fn(() => value),
+		set: vi.fn((newValue: unknown) => {
+			value = newValue;
+		}),
+	});
+};
+
+/**
+ * Vitest Mock API members of a mocked function, read from its vi.fn() (created on
+ * demand, see getMockFn) rather than from the proxy's target. Function metadata every
+ * target has (length, name, prototype) is left out.
+ */
+const mockFnProps = new Set<PropertyKey>(
+	[...mockApiKeys, ...vitestFnProps].filter(
+		(key) => key !== 'length' && key !== 'name' && key !== 'prototype',
+	),
+);
+
+/**
+ * Memoizes a child of a mock, allocating the cache on first use.
  *
- * @param name - Debug name for the mock (used in error messages)
- * @param strict - If true, throws errors when calling unstubbed methods
- * @param base - Optional base object with pre-defined properties/implementations
- * @returns A proxied object that auto-generates mocks for any accessed property
+ * @param generated - Whether the library generated the child, as opposed to a
+ *   user-provided or assigned value
  */
-const createProxy: {
-	<T extends object>(name: string, strict: boolean, base: T): T;
-	<T extends Mock = Mock>(name: string, strict: boolean): T;
-} = <T extends object | Mock>(name: string, strict: boolean, base?: T): T => {
-	// biome-ignore lint/suspicious/noExplicitAny: looseness needed for mocking
-	const cache = new Map<string | number | symbol, any>();
-
-	const handler: ProxyHandler<T> = {
-		get: (obj, prop, receiver) => {
-			const propName = prop.toString();
-
-			// Return undefined for special properties to prevent interference:
-			// - 'inspect' & Symbol(util.inspect.custom): Node.js inspection (console.log)
-			// - 'then': Prevents mocks from being treated as Promises
-			// - 'asymmetricMatch': Prevents interference with Vitest's asymmetric matchers
-			if (
-				prop === 'inspect' ||
-				prop === 'then' ||
-				prop === 'asymmetricMatch' ||
-				(typeof prop === 'symbol' && propName === 'Symbol(util.inspect.custom)')
-			) {
-				return undefined;
+const setChild = (
+	state: MockState,
+	key: PropertyKey,
+	value: unknown,
+	generated: boolean,
+) => {
+	state.cache ??= new Map();
+	state.cache.set(key, value);
+
+	if (generated) {
+		state.generated ??= new Set();
+		state.generated.add(key);
+	} else {
+		state.generated?.delete(key);
+	}
+};
+
+/**
+ * Tracking proxies of the plain objects read through each mock with `trackProperties`.
+ */
+const trackedObjects = new WeakMap<MockState, WeakMap<object, object>>();
+
+const isPlainObject = (value: unknown): value is object => {
+	if (typeof value !== 'object' || value === null || getMockState(value)) {
+		return false;
+	}
+
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Whether `prop` is a member every object or function inherits, such as `call`,
+ * `toString` or `Symbol.hasInstance`, rather than one provided to the mock.
+ */
+const isBuiltinMember = (obj: object, prop: PropertyKey) => {
+	let owner: object | null = obj;
+
+	while (owner && !Object.hasOwn(owner, prop)) {
+		owner = Object.getPrototypeOf(owner);
+	}
+
+	return owner === Object.prototype || owner === Function.prototype;
+};
+
+/**
+ * Records a read or write at `path`. Plain objects read are returned behind a proxy
+ * that records the accesses below them too, e.g. `mock.config.timeout` for a
+ * provided `config` object.
+ */
+const recordAccess = <V>(
+	state: MockState,
+	type: 'get' | 'set',
+	path: string,
+	value: V,
+): V => {
+	if (!state.history || typeof value === 'function' || getMockState(value)) {
+		return value;
+	}
+
+	state.history.push({ type, path, value, sequence: nextSequence() });
+
+	if (type === 'set' || !isPlainObject(value)) {
+		return value;
+	}
+
+	let tracked = trackedObjects.get(state);
+	if (!tracked) {
+		tracked = new WeakMap();
+		trackedObjects.set(state, tracked);
+	}
+
+	let proxy = tracked.get(value);
+	if (!proxy) {
+		proxy = new Proxy(value, {
+			get: (obj, prop, receiver) => {
+				const read = Reflect.get(obj, prop, receiver);
+
+				// Symbols are probed by equality checks and inspection, not read
+				return typeof prop === 'symbol'
+					? read
+					: recordAccess(state, 'get', `${path}.${prop}`, read);
+			},
+			set: (obj, prop, newValue, receiver) => {
+				if (typeof prop === 'string') {
+					recordAccess(state, 'set', `${path}.${prop}`, newValue);
+				}
+
+				return Reflect.set(obj, prop, newValue, receiver);
+			},
+		});
+		tracked.set(value, proxy);
+	}
+
+	return proxy as V;
+};
+
+/**
+ * Records reads and writes of data properties, passing the value through.
+ */
+const track = <V>(
+	state: MockState,
+	type: 'get' | 'set',
+	prop: PropertyKey,
+	value: V,
+): V => recordAccess(state, type, `${state.name}.${prop.toString()}`, value);
+
+/**
+ * Returns the iterator method the yield helpers stub, created even where reads would
+ * not.
+ */
+const iteratorOf = (state: MockState, symbol: IteratorSymbol): Mock => {
+	const iterator = state.cache?.get(symbol);
+
+	if (vi.isMockFunction(iterator)) {
+		return iterator as Mock;
+	}
+
+	const created = createIteratorMock(symbol);
+	setChild(state, symbol, created, true);
+
+	return created;
+};
+
+/**
+ * Creates the state of a new proxy, which doubles as its handler: the traps are
+ * inherited from `traps`, so that thousands of mocks share them instead of each
+ * allocating its own handler and closures. Traps find the state as `this`.
+ */
+const createHandler = <T extends object>(
+	traps: ProxyHandler<object>,
+	state: MockState,
+): MockState & ProxyHandler<T> => Object.assign(Object.create(traps), state);
+
+/**
+ * Traps of the light proxies around user-provided implementations, see
+ * createFunctionProxy.
+ */
+const functionTraps: ProxyHandler<Mock> & ThisType<MockState> = {
+	get(target, prop, receiver) {
+		if (prop === 'calledWith') {
+			return createCalledWith(target, receiver);
+		}
+
+		if (typeof prop === 'string' && deferredHelperNames.has(prop)) {
+			return createDeferredHelper(prop, this.name, target, () =>
+				resolveMockChild(receiver, '__apply'),
+			);
+		}
+
+		return Reflect.get(target, prop);
+	},
+	apply(target, thisArg, argsArray) {
+		return recordInteraction(this, this.name, target, argsArray, () => {
+			const stub = findArgumentStub(target, argsArray);
+
+			return stub
+				? callWithImplementation(target, stub, thisArg, argsArray)
+				: Reflect.apply(target, thisArg, argsArray);
+		});
+	},
+};
+
+/**
+ * Wraps a user-provided implementation in a vi.fn() to track calls, behind a light
+ * proxy that adds argument-matched stubbing and records calls to the journal.
+ *
+ * @param name - Debug name for the function (used in error messages)
+ * @param context - Settings shared with the rest of the mock tree
+ * @param implementation - The user-provided implementation
+ */
+// biome-ignore lint/suspicious/noExplicitAny: generic constraint for any function signature
+export const createFunctionProxy = <T extends (...args: any[]) => any>(
+	name: string,
+	context: MockContext,
+	implementation: T,
+): Mock<T> => {
+	const fn = vi.fn(implementation);
+	attachInspector(fn);
+
+	const state = createHandler<Mock<T>>(functionTraps as ProxyHandler<object>, {
+		name,
+		context,
+		target: fn,
+		snapshot: Object.getOwnPropertyDescriptors(fn),
+		callable: true,
+		fn,
+	});
+	const proxy = new Proxy(fn, state);
+	registerMockState(proxy, state);
+
+	return proxy;
+};
+
+/**
+ * Traps of the deep mocks created by createProxy. `this` is the proxy's MockState.
+ */
+const mockTraps: ProxyHandler<object> & ThisType<MockState> = {
+	get(obj, prop, receiver) {
+		const { name, context } = this;
+
+		// Node.js inspection (console.log) renders the mock tree, see printMock
+		if (prop === inspectSymbol) {
+			return Reflect.get(obj, prop);
+		}
+
+		// Return undefined for ignored properties to prevent interference, see
+		// defaultIgnoredProps (Symbol(util.inspect.custom) is legacy Node.js inspection)
+		if (
+			context.ignoredProps.has(prop) ||
+			(typeof prop === 'symbol' &&
+				prop.toString() === 'Symbol(util.inspect.custom)')
+		) {
+			return undefined;
+		}
+
+		if (this.callable) {
+			// For mocked functions, the Vitest Mock API comes from the underlying vi.fn(),
+			// created on first use. Vitest's mock detection alone does not need it
+			if (mockFnProps.has(prop)) {
+				return prop === '_isMockFunction'
+					? true
+					: Reflect.get(getMockFn(this) as Mock, prop);
 			}
 
-			// For auto-mocked functions (no base), allow direct access to Vitest Mock API properties
-			// This ensures methods like mockImplementation work correctly
-			if (!base && vitestFnProps.has(propName)) {
-				return Reflect.get(obj, prop, receiver);
+			if (prop === 'calledWith') {
+				return createCalledWith(getMockFn(this) as Mock, receiver);
 			}
 
-			// Return cached value if we've already created a mock for this property
-			// Ensures consistency: accessing mock.foo twice returns the same mock
-			if (cache.has(prop)) {
-				return cache.get(prop);
+			if (typeof prop === 'string' && deferredHelperNames.has(prop)) {
+				return createDeferredHelper(prop, name, getMockFn(this) as Mock, () =>
+					resolveMockChild(receiver, '__apply'),
+				);
 			}
+		}
 
+		const { cache } = this;
+
+		// Other mocks (roots and bases of iterable types) only have their iterator
+		// stubbed, unless they provide members of that name
+		if (
+			typeof prop === 'string' &&
+			yieldHelperNames.has(prop) &&
+			(this.callable || !(prop in obj || cache?.has(prop)))
+		) {
+			return createYieldHelper(
+				prop,
+				this.callable ? getMockFn(this) : undefined,
+				(symbol) => iteratorOf(this, symbol),
+				receiver,
+			);
+		}
+
+		// JSON.stringify gets the materialized tree, unless toJSON was stubbed
+		if (prop === 'toJSON' && !(prop in obj) && !cache?.has(prop)) {
+			return () => toPlainObject(receiver);
+		}
+
+		this.accessed ??= new Set();
+		this.accessed.add(prop);
+
+		if (context.trackProperties === 'accessors') {
+			toMockedAccessor(obj, prop);
+		}
+
+		// Accessors are evaluated on every read so that stubbed getters stay live
+		if (Object.getOwnPropertyDescriptor(obj, prop)?.get) {
+			return track(this, 'get', prop, Reflect.get(obj, prop, receiver));
+		}
+
+		// Return cached value if we've already created a mock for this property
+		// Ensures consistency: accessing mock.foo twice returns the same mock
+		if (cache?.has(prop)) {
+			return track(this, 'get', prop, cache.get(prop));
+		}
+
+		const propName = prop.toString();
+		const { strict } = context;
+		// biome-ignore lint/suspicious/noExplicitAny: looseness needed for mocking
+		let mockedProp: any;
+		let generated = false;
+
+		if (isBuiltinMember(obj, prop)) {
+			// Served as-is: `mock.fn.call()` still reaches the apply trap, and
+			// `x instanceof mock.Error` is not a call of the mock
+			return Reflect.get(obj, prop, receiver);
+		}
+		if (prop in obj) {
 			// biome-ignore lint/suspicious/noExplicitAny: looseness needed for mocking
 			const checkProp = (obj as any)[prop];
 
-			// biome-ignore lint/suspicious/noExplicitAny: looseness needed for mocking
-			let mockedProp: any;
-
-			if (prop in obj) {
-				// Property exists in the base object
-				// Check for functions - don't double-wrap already mocked functions
-				if (typeof checkProp === 'function') {
-					// If it's already a vi.fn() mock (from mock composition), use it as-is
-					// Otherwise wrap it with vi.fn() to track calls
-					mockedProp = vi.isMockFunction(checkProp)
-						? checkProp
-						: vi.fn(checkProp);
-				} else {
-					// Non-function property, use the value directly
-					mockedProp = checkProp;
-				}
+			// Property exists in the base object
+			// Check for functions - don't double-wrap already mocked functions
+			if (typeof checkProp === 'function') {
+				// If it's already a vi.fn() mock (from mock composition), use it as-is
+				// Otherwise wrap it with vi.fn() to track calls
+				mockedProp = vi.isMockFunction(checkProp)
+					? checkProp
+					: createFunctionProxy(`${name}.${propName}`, context, checkProp);
 			} else {
-				// Property doesn't exist - auto-generate a nested mock
-				// This enables deep access like mock.nested.deeply.whatever
-				mockedProp = createProxy(`${name}.${propName}`, strict);
+				// Non-function property, use the value directly
+				mockedProp = checkProp;
 			}
+		} else if (
+			(strict === 'access' || this.sealed) &&
+			(typeof prop === 'symbol' || probedProps.has(prop))
+		) {
+			// Library probes are not typos, don't blow up assertions on them
+			return undefined;
+		} else if (strict === 'access') {
+			throw new Error(
+				`Property ${name}.${propName} was accessed without being explicitly stubbed`,
+			);
+		} else if (strict === true && this.members) {
+			// Strict class mocks only expose members declared by the class,
+			// mirroring what a real instance would return
+			return undefined;
+		} else if (this.sealed) {
+			throw new Error(
+				`Property ${name}.${propName} was accessed after the mock was sealed`,
+			);
+		} else if (isIteratorSymbol(prop)) {
+			// Iterating an auto-mocked value yields nothing, see mockYield
+			mockedProp = createIteratorMock(prop);
+			generated = true;
+		} else {
+			// Property doesn't exist - auto-generate a nested mock
+			// This enables deep access like mock.nested.deeply.whatever
+			mockedProp = createProxy(`${name}.${propName}`, context);
+			generated = true;
+		}
+
+		// Cache the mocked property for consistent return values
+		setChild(this, prop, mockedProp, generated);
 
-			// Cache the mocked property for consistent return values
-			cache.set(prop, mockedProp);
+		return track(this, 'get', prop, mockedProp);
+	},
+	set(obj, prop, newValue) {
+		if (this.sealed && !this.cache?.has(prop) && !(prop in obj)) {
+			throw new Error(
+				`Property ${this.name}.${prop.toString()} cannot be added after the mock was sealed`,
+			);
+		}
 
-			return mockedProp;
-		},
-		set: (obj, prop, newValue) => {
-			// Update both the cache and the underlying object
-			// This allows mock properties to be reassigned: mock.foo = 42
-			cache.set(prop, newValue);
+		track(this, 'set', prop, newValue);
 
+		// Setters receive the value without it shadowing the accessor
+		if (Object.getOwnPropertyDescriptor(obj, prop)?.set) {
 			return Reflect.set(obj, prop, newValue);
-		},
-	};
+		}
 
-	// For auto-mocked functions (no base), add apply trap to handle function calls
-	if (!base) {
-		(handler as ProxyHandler<Mock>).apply = (target, thisArg, argsArray) => {
-			const result = Reflect.apply(target, thisArg, argsArray);
+		// Update both the cache and the underlying object
+		// This allows mock properties to be reassigned: mock.foo = 42
+		setChild(this, prop, newValue, false);
+
+		if (!Reflect.set(obj, prop, newValue)) {
+			return false;
+		}
+
+		if (this.context.trackProperties === 'accessors') {
+			toMockedAccessor(obj, prop);
+		}
+
+		return true;
+	},
+	// Generated members exist once read, e.g. for Vitest's check of module exports
+	has(obj, prop) {
+		return (
+			prop in obj ||
+			this.cache?.has(prop) === true ||
+			(this.callable === true && mockFnProps.has(prop))
+		);
+	},
+	// Calls of mocked functions are recorded, stubbed or answered with a deep mock
+	apply(target, thisArg, argsArray) {
+		const fn = getMockFn(this);
+
+		// A function base the mock was not asked to make callable is called as is
+		if (!fn) {
+			return Reflect.apply(target as AnyFunction, thisArg, argsArray);
+		}
+
+		const { name, context } = this;
+
+		return recordInteraction(this, name, fn, argsArray, (interaction) => {
+			// Argument-matched stubs take precedence over everything else
+			const stub = findArgumentStub(fn, argsArray);
+			if (stub) {
+				return callWithImplementation(fn, stub, thisArg, argsArray);
+			}
+
+			const result = Reflect.apply(fn, thisArg, argsArray);
 
 			// If the function has a user-provided implementation or returned a value, use it
-			if (target.getMockImplementation() || result !== undefined) {
+			if (fn.getMockImplementation() || result !== undefined) {
 				return result;
 			}
 
-			// Strict mode: throw error if function is called without being stubbed
-			if (strict) {
-				throw new Error(
+			// Strict mode: throw error if function is called without being stubbed,
+			// or record it and carry on with 'warn'
+			if (context.strict) {
+				reportStrictViolation(
 					`Method ${name} was called without being explicitly stubbed`,
+					this,
+					thisArg,
+					argsArray,
+					mockTraps.apply as AnyFunction,
 				);
 			}
 
+			if (context.autoReturn === 'undefined') {
+				interaction.autoMocked = true;
+				return undefined;
+			}
+
 			// Auto-generate a mock for the return value
 			// Cache it so repeated calls return the same mock object
-			if (!cache.has('__apply')) {
-				cache.set('__apply', createProxy(name, strict));
+			if (!this.cache?.has('__apply')) {
+				if (this.sealed) {
+					throw new Error(
+						`Method ${name} was called after the mock was sealed without being explicitly stubbed`,
+					);
+				}
+
+				setChild(this, '__apply', createProxy(`${name}()`, context), true);
 			}
 
-			return cache.get('__apply');
-		};
+			interaction.autoMocked = true;
+			return this.cache?.get('__apply');
+		});
+	},
+	// For mocked functions, `new` returns a deep mock unless an implementation was given
+	construct(target, argsArray, newTarget) {
+		const fn = getMockFn(this);
+
+		if (!fn) {
+			return Reflect.construct(target as AnyFunction, argsArray, newTarget);
+		}
+
+		const { name, context } = this;
+
+		return recordInteraction(
+			this,
+			`new ${name}`,
+			fn,
+			argsArray,
+			(interaction) => {
+				const result = Reflect.construct(fn, argsArray, newTarget);
+
+				if (fn.getMockImplementation()) {
+					return result;
+				}
+
+				const { instanceClass } = this;
+
+				if (context.strict && !instanceClass) {
+					reportStrictViolation(
+						`Constructor ${name} was called without being explicitly stubbed`,
+						this,
+						undefined,
+						argsArray,
+						mockTraps.construct as AnyFunction,
+					);
+				}
+
+				if (this.sealed && !instanceClass) {
+					throw new Error(
+						`Constructor ${name} was called after the mock was sealed without being explicitly stubbed`,
+					);
+				}
+
+				// Build the deep mock on the instance Vitest created, so it keeps its
+				// prototype, or as a mock of the class, and record it in its place
+				const instance = instanceClass
+					? createClassProxy(instanceClass, `new ${name}()`, context)
+					: createProxy(`new ${name}()`, context, result);
+				const { mock } = fn;
+				const index = mock.instances.lastIndexOf(result);
+
+				mock.instances[index] = instance;
+				mock.contexts[index] = instance;
+				for (const entry of mock.results) {
+					if (entry.value === result) {
+						entry.value = instance;
+					}
+				}
+
+				const instanceState = getMockState(instance);
+				if (instanceState) {
+					instanceState.autoGenerated = true;
+				}
+
+				this.instances = [...(this.instances ?? []), instance];
+				interaction.autoMocked = true;
+
+				return instance;
+			},
+		) as object;
+	},
+};
+
+/**
+ * Creates the target of an auto-generated mock: a plain function standing in for its
+ * vi.fn() until that is needed (see getMockFn), callable and constructible so that
+ * the proxy's traps apply.
+ */
+const createStandIn = (): object => {
+	// biome-ignore lint/complexity/useArrowFunction: arrow functions are not constructible
+	const standIn = function () {};
+	Object.defineProperty(standIn, inspectSymbol, inspectorDescriptor);
+
+	return standIn;
+};
+
+/**
+ * What restoreMock puts back on stand-ins: the descriptors all of them share. Their
+ * `prototype` is left alone, as it can't be deleted.
+ */
+const { prototype: _, ...standInSnapshot } = Object.getOwnPropertyDescriptors(
+	createStandIn(),
+);
+
+/**
+ * Creates a Proxy that enables deep mocking with automatic property generation.
+ *
+ * Mocks are cheap until used: the proxy's state doubles as its handler (see
+ * createHandler), caches are allocated on the first child, and auto-generated
+ * functions only get their vi.fn() when called, stubbed or asserted on.
+ *
+ * @param name - Debug name for the mock (used in error messages)
+ * @param context - Settings shared with the rest of the mock tree
+ * @param base - Optional base object with pre-defined properties/implementations, or a
+ *   vi.fn() carrying them for a callable mock
+ * @returns A proxied object that auto-generates mocks for any accessed property
+ */
+const createProxy: {
+	<T extends object>(name: string, context: MockContext, base: T): T;
+	<T extends Mock = Mock>(name: string, context: MockContext): T;
+} = <T extends object | Mock>(
+	name: string,
+	context: MockContext,
+	base?: T,
+): T => {
+	const { trackProperties } = context;
+
+	if (!base) {
+		const target = createStandIn() as T;
+		const state = createHandler<T>(mockTraps, {
+			name,
+			context,
+			history: trackProperties ? [] : undefined,
+			target,
+			snapshot: standInSnapshot,
+			autoGenerated: true,
+			callable: true,
+		});
+		const proxy = new Proxy(target, state);
+		registerMockState(proxy, state);
+
+		return proxy;
+	}
+
+	// A vi.fn() base (callable root mocks) gets the same Mock API and apply trap as
+	// auto-mocked functions
+	const callable = vi.isMockFunction(base);
+
+	attachInspector(base);
+
+	const state = createHandler<T>(mockTraps, {
+		name,
+		context,
+		history: trackProperties ? [] : undefined,
+		target: base,
+		snapshot: Object.getOwnPropertyDescriptors(base),
+		base,
+		callable,
+		fn: callable ? (base as Mock) : undefined,
+	});
+
+	if (trackProperties === 'accessors') {
+		// Upfront, so that vi.spyOn finds the accessors before the first read
+		for (const key of Reflect.ownKeys(base)) {
+			if (!(callable && mockFnProps.has(key))) {
+				toMockedAccessor(base, key);
+			}
+		}
 	}
-	return new Proxy(base || (vi.fn() as T), handler);
+
+	const proxy = new Proxy(base, state);
+	registerMockState(proxy, state);
+
+	return proxy;
+};
+
+/**
+ * Returns the child of a mock at `key` (`__apply` for the value its calls return) like
+ * reading it would, but without recording the read and regardless of strictness, so
+ * that members can be stubbed before use. Sealed mocks still refuse new members.
+ */
+export const resolveMockChild = (mock: object, key: PropertyKey): unknown => {
+	const state = getMockState(mock);
+
+	if (!state || state.cache?.has(key)) {
+		return state?.cache?.get(key);
+	}
+
+	const childName =
+		key === '__apply' ? `${state.name}()` : `${state.name}.${key.toString()}`;
+
+	if (key !== '__apply' && key in state.target) {
+		const accessed = state.accessed?.has(key);
+		const value = Reflect.get(mock, key);
+
+		if (!accessed) {
+			state.accessed?.delete(key);
+		}
+
+		return value;
+	}
+
+	if (state.sealed) {
+		throw new Error(`Cannot stub ${childName} after the mock was sealed`);
+	}
+
+	const child = createProxy(childName, state.context);
+	setChild(state, key, child, true);
+
+	return child;
 };
 
-export type MockOptions = {
+/**
+ * Creates a nested mock that belongs to `mock`'s tree without being one of its
+ * members, e.g. the result of a call with specific arguments.
+ */
+export const createDetachedChild = (mock: object, name: string): object => {
+	const state = getMockState(mock);
+
+	return createProxy(name, state?.context ?? createContext({}));
+};
+
+export type MockOptions<T = unknown> = {
 	/** Debug name for the mock, used in error messages (default: 'mock') */
 	name?: string;
-	/** If true, throws errors when calling unstubbed methods (default: false) */
-	strict?: boolean;
+	/**
+	 * If true, throws errors when calling unstubbed methods. If 'access', also throws
+	 * when reading properties that were neither provided nor stubbed. If 'warn', records
+	 * unstubbed calls instead of throwing, see getStrictViolations (default: false)
+	 */
+	strict?: Strictness;
+	/**
+	 * Journal the mock's calls are recorded to, for verification across mocks
+	 * (default: the global journal used by `getInteractions` and `verifyInOrder`)
+	 */
+	journal?: InteractionJournal;
+	/**
+	 * Records every read and write of data properties, see getPropertyHistory. With
+	 * 'accessors', data properties also become mocked getters and setters that
+	 * `vi.spyOn(mock, 'prop', 'get')` can stub (default: false)
+	 */
+	trackProperties?: PropertyTracking;
+	/**
+	 * What calling an unstubbed function returns: a deep mock generated on first call,
+	 * or undefined (default: 'mock')
+	 */
+	autoReturn?: 'mock' | 'undefined';
+	/**
+	 * Further properties that always read as undefined, for libraries that probe mocks
+	 * for their own markers (`then`, `inspect` and `asymmetricMatch` always are)
+	 */
+	ignoredProps?: PropertyKey[];
+	/**
+	 * If true, the mock itself is a mocked function, with `partial` providing its
+	 * properties. Needed for function types mocked without an implementation, since
+	 * types are gone at runtime (default: true when `partial` is a function)
+	 */
+	callable?: boolean;
+	/**
+	 * Calls the mock's methods are expected to receive, checked by verifyExpectations
+	 * and after each test by the setup entry, e.g. `{ save: { times: 1 } }`
+	 */
+	expect?: MockExpectations<T>;
+};
+
+/**
+ * Installs `MockOptions.expect` on the mocked functions of a new mock, generating them
+ * if needed.
+ */
+const applyExpectations = (mock: object, expectations: object) => {
+	for (const [key, value] of Object.entries(expectations)) {
+		const child = resolveMockChild(mock, key);
+
+		if (!getMockState(child)) {
+			throw new TypeError(
+				`Cannot expect calls of ${getMockState(mock)?.name}.${key}: it is not a mock`,
+			);
+		}
+
+		if (isCallExpectation(value)) {
+			addExpectation(child, value, true);
+		} else {
+			applyExpectations(child as object, value);
+		}
+	}
+
+	return mock;
+};
+
+/**
+ * Resolves the settings shared by every proxy of a new mock tree, falling back to the
+ * defaults set by configureCreateMock.
+ */
+export const createContext = (options: MockOptions): MockContext => {
+	const {
+		name = 'mock',
+		strict = false,
+		journal = globalJournal,
+		trackProperties = false,
+		autoReturn = 'mock',
+		ignoredProps = [],
+	} = applyMockConfig(options);
+
+	return {
+		name,
+		strict,
+		journal,
+		trackProperties,
+		autoReturn,
+		ignoredProps: new Set([...defaultIgnoredProps, ...ignoredProps]),
+	};
+};
+
+/**
+ * Any class, including abstract ones, that can be passed to createMock.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: generic constraint for any constructor signature
+export type Constructor<T = any> = abstract new (...args: any[]) => T;
+
+/**
+ * Detects class constructors, both native `class` syntax and transpiled or
+ * ES5-style constructors that declare methods on their prototype.
+ */
+export const isClass = (value: unknown): value is Constructor => {
+	if (typeof value !== 'function' || !value.prototype) {
+		return false;
+	}
+
+	return (
+		/^class[\s{]/.test(Function.prototype.toString.call(value)) ||
+		Object.getOwnPropertyNames(value.prototype).length > 1
+	);
 };
 
+/**
+ * Builds the object a class mock proxies: an instance-like object whose prototype is
+ * the class prototype (so `instanceof` passes) with an own, enumerable stub for every
+ * method and accessor found along the prototype chain.
+ *
+ * @returns The target object and the set of member names declared by the class
+ */
+const createClassTarget = (
+	cls: Constructor,
+	name: string,
+	context: MockContext,
+): { target: object; members: Set<PropertyKey> } => {
+	const target = Object.create(cls.prototype);
+	const members = new Set<PropertyKey>();
+
+	for (
+		let proto = cls.prototype;
+		proto && proto !== Object.prototype;
+		proto = Object.getPrototypeOf(proto)
+	) {
+		for (const key of Reflect.ownKeys(proto)) {
+			// Subclass members shadow inherited ones
+			if (key === 'constructor' || members.has(key)) {
+				continue;
+			}
+
+			members.add(key);
+
+			const descriptor = Object.getOwnPropertyDescriptor(proto, key);
+			const memberName = `${name}.${key.toString()}`;
+
+			if (descriptor?.get || descriptor?.set) {
+				// Getters return a deep mock generated into the proxy's cache on first
+				// read (`this` is the proxy), setters just record calls
+				const get = function (this: unknown) {
+					const state = getMockState(this);
+
+					if (state && !state.cache?.has(key)) {
+						if (state.sealed) {
+							throw new Error(
+								`Property ${memberName} was accessed after the mock was sealed`,
+							);
+						}
+
+						setChild(state, key, createProxy(memberName, context), true);
+					}
+
+					return state?.cache?.get(key);
+				};
+
+				Object.defineProperty(target, key, {
+					configurable: true,
+					enumerable: true,
+					get: descriptor.get ? vi.fn(get) : undefined,
+					set: descriptor.set ? vi.fn() : undefined,
+				});
+			} else if (typeof descriptor?.value === 'function') {
+				Object.defineProperty(target, key, {
+					configurable: true,
+					enumerable: true,
+					writable: true,
+					value: createProxy(memberName, context),
+				});
+			}
+		}
+	}
+
+	return { target, members };
+};
+
+/**
+ * Creates a mock of an instance of `cls`, see createClassTarget.
+ *
+ * @param partial - User-provided members, taking precedence over the generated stubs
+ */
+const createClassProxy = (
+	cls: Constructor,
+	name: string,
+	context: MockContext,
+	partial: object = {},
+): object => {
+	const { target, members } = createClassTarget(cls, name, context);
+
+	Object.defineProperties(target, Object.getOwnPropertyDescriptors(partial));
+	for (const key of Reflect.ownKeys(partial)) {
+		members.add(key);
+	}
+
+	const proxy = createProxy(name, context, target);
+	const state = getMockState(proxy);
+	if (state) {
+		state.members = members;
+	}
+
+	return proxy;
+};
+
+/**
+ * Builds the vi.fn() a callable mock proxies: it runs `partial` when that is a function
+ * and carries its own properties, which the proxy treats like those of a base object.
+ */
+const createCallableTarget = (partial: object): Mock => {
+	if (vi.isMockFunction(partial)) {
+		return partial as Mock;
+	}
+
+	const fn = vi.fn(
+		typeof partial === 'function' ? (partial as AnyFunction) : undefined,
+	);
+	const descriptors = Object.getOwnPropertyDescriptors(partial);
+
+	// Function metadata stays the mock's own
+	for (const key of ['length', 'name', 'prototype']) {
+		delete descriptors[key];
+	}
+
+	return Object.defineProperties(fn, descriptors);
+};
+
+/**
+ * Arguments of createMock for a type. Types are gone at runtime, so a function type
+ * mocked without a function partial needs `callable: true` to become callable.
+ */
+export type CreateMockArgs<T> = [T] extends [AnyFunction]
+	?
+			| [partial: PartialFunction<T>, options?: MockOptions<T>]
+			| [
+					partial: PartialProperties<T> | undefined,
+					options: MockOptions<T> & { callable: true },
+			  ]
+	: [partial?: PartialFuncReturn<T>, options?: MockOptions<T>];
+
 /**
  * Creates a deep mock of the specified type with Vitest.
  *
@@ -248,6 +1250,8 @@ export type MockOptions = {
  * - Function return values are automatically mocked and awaitable
  * - Supports mock composition: pass existing mocks as partial values
  * - All functions are Vitest mocks with full Mock API support
+ * - Classes can be passed directly: methods and accessors are stubbed upfront and
+ *   the mock passes `instanceof` checks
  *
  * @param partial - Optional object with pre-defined properties/implementations
  * @param options - Optional configuration (name, strict mode)
@@ -275,14 +1279,58 @@ export type MockOptions = {
  * const user = createMock<User>({
  *   getAddress: () => address
  * });
+ *
+ * // From a class
+ * const repo = createMock(UserRepository, { findById: () => null });
+ * repo instanceof UserRepository; // true
  * ```
  */
-export const createMock = <T extends object>(
-	partial: PartialFuncReturn<T> = {},
-	options: MockOptions = {},
-): DeepMocked<T> => {
-	const { name = 'mock', strict = false } = options;
-	const proxy = createProxy<T>(name, strict, partial as T);
+export const createMock: {
+	<T extends object>(...args: CreateMockArgs<T>): DeepMocked<T>;
+	<C extends Constructor>(
+		cls: C,
+		partial?: PartialFuncReturn<InstanceType<C>>,
+		options?: MockOptions<InstanceType<C>>,
+	): DeepMocked<InstanceType<C>>;
+} = (
+	partialOrClass: object = {},
+	partialOrOptions: object = {},
+	classOptions: MockOptions = {},
+	// biome-ignore lint/suspicious/noExplicitAny: the overloads above type the result
+): any => {
+	if (!isClass(partialOrClass)) {
+		const {
+			name: baseName = 'mock',
+			callable = typeof partialOrClass === 'function',
+			expect = {},
+			...options
+		} = partialOrOptions as MockOptions;
+		const name = prefixMockName(baseName);
+
+		return registerMock(
+			applyExpectations(
+				createProxy(
+					name,
+					createContext({ ...options, name }),
+					callable ? createCallableTarget(partialOrClass) : partialOrClass,
+				),
+				expect,
+			),
+		);
+	}
+
+	const {
+		name: baseName = partialOrClass.name || 'mock',
+		expect = {},
+		...options
+	} = classOptions;
+	const name = prefixMockName(baseName);
+	const proxy = createClassProxy(
+		partialOrClass,
+		name,
+		createContext({ ...options, name }),
+		partialOrOptions,
+	);
 
-	return proxy as DeepMocked<T>;
+	return registerMock(applyExpectations(proxy, expect));
 };
@@ -0,0 +1,157 @@
+import * as os from 'node:os';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { getMockMeta } from './introspection';
+import type { MockedClass, MockedFunction } from './mocks';
+import { createModuleMock, createModuleMockFrom } from './module';
+
+// vi.mock is hoisted above imports, so the factory imports what it needs
+vi.mock('node:os', async (importOriginal) => {
+	const { createModuleMockFrom } = await import('./module');
+
+	return createModuleMockFrom<typeof import('node:os')>(
+		importOriginal,
+		{ hostname: () => 'test-host' },
+		{ name: 'os' },
+	);
+});
+
+class Connection {
+	constructor(readonly url: string) {}
+
+	query(sql: string): Promise<unknown[]> {
+		return Promise.resolve([sql]);
+	}
+}
+
+const dbModule = {
+	version: '1.2.0',
+	retries: 3,
+	connect: (url: string) => new Connection(url),
+	Connection,
+	settings: { timeout: 5, pool: { size: 10 } },
+};
+
+type DbModule = typeof dbModule;
+
+describe('createModuleMock', () => {
+	it('generates every export on first import', () => {
+		const db = createModuleMock<DbModule>();
+
+		db.connect('postgres://').query.mockResolvedValue([1]);
+
+		expect(db.connect).toHaveBeenCalledWith('postgres://');
+		expect(db.settings.pool.size).toBeDefined();
+		expect('connect' in db).toBe(true);
+	});
+
+	it('uses overrides as exports', () => {
+		const db = createModuleMock<DbModule>({
+			version: '2.0.0',
+			connect: () => ({ url: 'stub' }),
+		});
+
+		expect(db.version).toBe('2.0.0');
+		expect(db.connect('postgres://').url).toBe('stub');
+		expect(db.connect).toHaveBeenCalledOnce();
+	});
+
+	it('names the mock module by default', () => {
+		expect(getMockMeta(createModuleMock<DbModule>().connect).name).toBe(
+			'module.connect',
+		);
+		expect(
+			getMockMeta(createModuleMock<DbModule>({}, { name: 'db' }).connect).name,
+		).toBe('db.connect');
+	});
+
+	it('types exports from the module', () => {
+		const db = createModuleMock<DbModule>();
+
+		expectTypeOf(db.connect).toEqualTypeOf<
+			MockedFunction<DbModule['connect']>
+		>();
+		expectTypeOf(db.Connection).toEqualTypeOf<MockedClass<typeof Connection>>();
+		expectTypeOf(db.version).toEqualTypeOf<string>();
+		expectTypeOf(db.settings.pool.size).toEqualTypeOf<number>();
+	});
+});
+
+describe('createModuleMockFrom', () => {
+	it('mocks functions, classes and objects and keeps constants', async () => {
+		const db = await createModuleMockFrom<DbModule>(async () => dbModule);
+
+		expect(db.version).toBe('1.2.0');
+		expect(db.retries).toBe(3);
+		expect(vi.isMockFunction(db.connect)).toBe(true);
+		expect(vi.isMockFunction(db.settings.pool)).toBe(true);
+
+		const connection = new db.Connection('postgres://');
+		connection.query.mockResolvedValue([]);
+
+		expect(db.Connection).toHaveBeenCalledWith('postgres://');
+		expect(db.Connection.mock.instances[0]).toBe(connection);
+	});
+
+	it('constructs class mocks of the original classes', async () => {
+		const db = await createModuleMockFrom<DbModule>(
+			async () => dbModule,
+			{},
+			{ strict: true },
+		);
+
+		const connection = new db.Connection('postgres://');
+		connection.query.mockResolvedValue([1]);
+
+		expect(connection).toBeInstanceOf(Connection);
+		expect(connection).toBeInstanceOf(db.Connection);
+		expect({}).not.toBeInstanceOf(db.Connection);
+		await expect(connection.query('select 1')).resolves.toEqual([1]);
+		expect((connection as Record<string, unknown>).close).toBeUndefined();
+		expect(db.Connection.mock.instances).toEqual([connection]);
+	});
+
+	it('never runs the original functions', async () => {
+		const connect = vi.fn();
+		const db = await createModuleMockFrom<DbModule>(async () => ({
+			...dbModule,
+			connect,
+		}));
+
+		db.connect('postgres://');
+
+		expect(connect).not.toHaveBeenCalled();
+		expect(db.connect).toHaveBeenCalledOnce();
+	});
+
+	it('uses overrides in place of the original exports', async () => {
+		const db = await createModuleMockFrom<DbModule>(async () => dbModule, {
+			version: '0.0.0',
+			connect: (url: string) => ({ url }),
+		});
+
+		expect(db.version).toBe('0.0.0');
+		expect(db.connect('postgres://').url).toBe('postgres://');
+	});
+
+	it('only has the exports of the original module in strict mode', async () => {
+		const db = await createModuleMockFrom<DbModule>(
+			async () => dbModule,
+			{},
+			{ strict: 'access', name: 'db' },
+		);
+
+		db.connect.mockReturnValue(new Connection('postgres://'));
+
+		expect(db.connect('postgres://')).toBeInstanceOf(Connection);
+		expect(() => (db as Record<string, unknown>).disconnect).toThrow(
+			'Property db.disconnect was accessed without being explicitly stubbed',
+		);
+	});
+
+	it('works as a vi.mock factory', () => {
+		expect(os.hostname()).toBe('test-host');
+		expect(typeof os.EOL).toBe('string');
+		expect(vi.isMockFunction(os.cpus)).toBe(true);
+		expect(vi.mocked(os.cpus)()).toBeDefined();
+	});
+});
@@ -0,0 +1,123 @@
+import {
+	type CreateMockArgs,
+	createMock,
+	type DeepMocked,
+	isClass,
+	type MockOptions,
+	type PartialFuncReturn,
+	resolveMockChild,
+} from './mocks';
+import { getMockState } from './state';
+
+export type ModuleMockOptions<M = unknown> = Omit<MockOptions<M>, 'callable'>;
+
+const isPrimitive = (value: unknown) =>
+	value === null || (typeof value !== 'object' && typeof value !== 'function');
+
+/**
+ * Creates the exports of a mocked module for a `vi.mock` factory, typed from the
+ * module: functions are mocked functions, classes constructible mocks and objects deep
+ * mocks, all generated when first imported. `overrides` provides exports as in
+ * `createMock`.
+ *
+ * Without the original module, every export that is imported exists, so strict mode
+ * only allows `overrides`. See createModuleMockFrom to mock the exports the module
+ * really has and keep its constants.
+ *
+ * @param overrides - Optional exports, implementations or values
+ * @param options - Optional configuration, as for `createMock` (name defaults to `'module'`)
+ * @returns The deeply mocked exports
+ *
+ * @example
+ * ```typescript
+ * import { query } from './db';
+ *
+ * vi.mock('./db', () =>
+ *   createModuleMock<typeof import('./db')>({ query: async () => [] }),
+ * );
+ *
+ * query.mockResolvedValueOnce([{ id: 1 }]);
+ * ```
+ */
+export const createModuleMock = <M extends object>(
+	overrides: PartialFuncReturn<M> = {} as PartialFuncReturn<M>,
+	options: ModuleMockOptions<M> = {},
+): DeepMocked<M> =>
+	createMock<M>(
+		...([
+			overrides,
+			{ name: 'module', ...options, callable: false },
+		] as CreateMockArgs<M>),
+	);
+
+/**
+ * Creates the exports of a mocked module from the original one, for a `vi.mock`
+ * factory: every exported function is a mocked function, every class a constructible
+ * mock and every object a deep mock, while primitive constants keep their original
+ * value. `overrides` replace exports as in `createMock`.
+ *
+ * The original module is only read for its exports: none of its functions run.
+ *
+ * @param importOriginal - The helper `vi.mock` passes to factories, or any function
+ * resolving to the module
+ * @param overrides - Optional exports, implementations or values
+ * @param options - Optional configuration, as for `createMock` (name defaults to `'module'`)
+ * @returns A promise of the deeply mocked exports
+ *
+ * @example
+ * ```typescript
+ * vi.mock('./db', (importOriginal) =>
+ *   createModuleMockFrom<typeof import('./db')>(importOriginal, {
+ *     connect: async () => connection,
+ *   }),
+ * );
+ *
+ * // strict mocks reject members the module does not export
+ * vi.mock('./db', (importOriginal) =>
+ *   createModuleMockFrom<typeof import('./db')>(importOriginal, {}, { strict: 'access' }),
+ * );
+ * ```
+ */
+export const createModuleMockFrom = async <M extends object>(
+	importOriginal: () => Promise<unknown>,
+	overrides: PartialFuncReturn<M> = {} as PartialFuncReturn<M>,
+	options: ModuleMockOptions<M> = {},
+): Promise<DeepMocked<M>> => {
+	const original = (await importOriginal()) as Record<string, unknown>;
+	const constants: Record<string, unknown> = {};
+	const mocked: string[] = [];
+
+	for (const key of Object.keys(original)) {
+		if (key in overrides) {
+			continue;
+		}
+
+		if (isPrimitive(original[key])) {
+			constants[key] = original[key];
+		} else {
+			mocked.push(key);
+		}
+	}
+
+	const mock = createMock<M>(
+		...([
+			{ ...constants, ...overrides },
+			{ name: 'module', ...options, callable: false },
+		] as CreateMockArgs<M>),
+	);
+
+	// Generated upfront, so that exports exist even in strict mode and other members
+	// don't. Classes construct mocks of their instances, as createMock(Class) does,
+	// which `instanceof` recognizes through the prototype of the class
+	for (const key of mocked) {
+		const state = getMockState(resolveMockChild(mock, key));
+		const value = original[key];
+
+		if (state && isClass(value)) {
+			state.instanceClass = value;
+			(state.target as { prototype: object }).prototype = value.prototype;
+		}
+	}
+
+	return mock;
+};
@@ -0,0 +1,14 @@
+/**
+ * Splits a mock path into its segments: property names, and `()` for the value
+ * returned by a call. `'switchToHttp().getRequest'` becomes
+ * `['switchToHttp', '()', 'getRequest']`.
+ */
+export const splitPath = (path: string): string[] =>
+	path.match(/\(\)|[^.()]+/g) ?? [];
+
+/**
+ * Appends a path to a mock name, e.g. `ctx` and `'switchToHttp()'` give
+ * `ctx.switchToHttp()`.
+ */
+export const joinPath = (name: string, path: string): string =>
+	path === '' || path.startsWith('(') ? `${name}${path}` : `${name}.${path}`;
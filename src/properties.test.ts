@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getInteractions } from './journal';
+import { clearMock, restoreMock } from './lifecycle';
+import { createMock } from './mocks';
+import { getPropertyHistory } from './properties';
+
+interface AuthService {
+	session: { userId: number; token: string };
+	config: { timeout: number };
+	retries: number;
+	getUser: () => { email: string };
+	login: (name: string) => void;
+}
+
+describe('getPropertyHistory', () => {
+	it('should record reads and writes of data properties in order', () => {
+		const auth = createMock<AuthService>(
+			{ retries: 3 },
+			{ trackProperties: true },
+		);
+
+		void auth.retries;
+		auth.session.userId = 5;
+		void auth.session.userId;
+		auth.retries = 4;
+
+		expect(getPropertyHistory(auth)).toMatchObject([
+			{ type: 'get', path: 'mock.retries', value: 3 },
+			{ type: 'set', path: 'mock.session.userId', value: 5 },
+			{ type: 'get', path: 'mock.session.userId', value: 5 },
+			{ type: 'set', path: 'mock.retries', value: 4 },
+		]);
+	});
+
+	it('should filter by path', () => {
+		const auth = createMock<AuthService>({}, { trackProperties: true });
+
+		auth.session.userId = 5;
+		auth.session.token = 'secret';
+		auth.getUser().email = 'alice@example.com';
+
+		expect(getPropertyHistory(auth, 'session.userId')).toEqual([
+			{
+				type: 'set',
+				path: 'mock.session.userId',
+				value: 5,
+				sequence: expect.any(Number),
+			},
+		]);
+		expect(getPropertyHistory(auth, 'getUser().email')).toMatchObject([
+			{ type: 'set', value: 'alice@example.com' },
+		]);
+		expect(getPropertyHistory(auth.session, 'token')).toMatchObject([
+			{ type: 'set', path: 'mock.session.token', value: 'secret' },
+		]);
+	});
+
+	it('should record accesses below provided plain objects', () => {
+		const auth = createMock<AuthService>(
+			{ config: { timeout: 5 } },
+			{ trackProperties: true },
+		);
+
+		void auth.config.timeout;
+		auth.config.timeout = 10;
+
+		expect(getPropertyHistory(auth, 'config.timeout')).toMatchObject([
+			{ type: 'get', path: 'mock.config.timeout', value: 5 },
+			{ type: 'set', path: 'mock.config.timeout', value: 10 },
+		]);
+		expect(auth.config).toBe(auth.config);
+		expect(auth.config).toEqual({ timeout: 10 });
+	});
+
+	it('should not record functions or nested mocks', () => {
+		const auth = createMock<AuthService>(
+			{ login: () => {} },
+			{ trackProperties: true },
+		);
+
+		void auth.session;
+		auth.login('alice');
+		auth.getUser();
+
+		expect(getPropertyHistory(auth)).toEqual([]);
+	});
+
+	it('should order accesses relative to calls', () => {
+		const auth = createMock<AuthService>({}, { trackProperties: true });
+
+		auth.login('alice');
+		auth.session.userId = 5;
+
+		const [call] = getInteractions(auth);
+		const [write] = getPropertyHistory(auth);
+
+		expect(write?.sequence).toBeGreaterThan(
+			call?.sequence ?? Number.POSITIVE_INFINITY,
+		);
+	});
+
+	it('should forget accesses when the mock is cleared', () => {
+		const auth = createMock<AuthService>({}, { trackProperties: true });
+
+		auth.session.userId = 5;
+		clearMock(auth);
+
+		expect(getPropertyHistory(auth)).toEqual([]);
+	});
+
+	it('should reject mocks without tracking', () => {
+		expect(() => getPropertyHistory(createMock<AuthService>())).toThrow(
+			'getPropertyHistory expects a mock created with trackProperties enabled',
+		);
+	});
+
+	describe('accessors', () => {
+		it('should let vi.spyOn stub data properties', () => {
+			const auth = createMock<AuthService>(
+				{ retries: 3 },
+				{ trackProperties: 'accessors' },
+			);
+
+			const getter = vi.spyOn(auth, 'retries', 'get').mockReturnValue(10);
+
+			expect(auth.retries).toBe(10);
+			expect(getter).toHaveBeenCalledOnce();
+			expect(getPropertyHistory(auth, 'retries')).toMatchObject([
+				{ type: 'get', value: 10 },
+			]);
+		});
+
+		it('should track assigned values through the setter', () => {
+			const auth = createMock<AuthService>(
+				{},
+				{ trackProperties: 'accessors' },
+			);
+
+			auth.session.userId = 5;
+			const setter = vi.spyOn(auth.session, 'userId', 'set');
+			auth.session.userId = 6;
+
+			expect(auth.session.userId).toBe(6);
+			expect(setter).toHaveBeenCalledWith(6);
+		});
+
+		it('should restore the original values', () => {
+			const auth = createMock<AuthService>(
+				{ retries: 3 },
+				{ trackProperties: 'accessors' },
+			);
+
+			vi.spyOn(auth, 'retries', 'get').mockReturnValue(10);
+			auth.retries = 4;
+			restoreMock(auth);
+
+			expect(auth.retries).toBe(3);
+		});
+	});
+});
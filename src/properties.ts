@@ -0,0 +1,51 @@
+import { joinPath } from './paths';
+import { getMockState, type PropertyAccess, walkMockStates } from './state';
+
+/**
+ * Returns the recorded reads and writes of data properties in a mock tree created
+ * with `trackProperties`, in the order they happened. Only values are recorded:
+ * reading an auto-generated nested mock or a function is not a data access.
+ *
+ * @param mock - A mock returned by `createMock` with `trackProperties` enabled
+ * @param path - Optional dotted path of a property, relative to `mock`, to filter by
+ *   (`()` stands for the value returned by a call, e.g. `'getUser().name'`)
+ * @returns The recorded accesses, oldest first
+ *
+ * @example
+ * ```typescript
+ * const auth = createMock<AuthService>({}, { trackProperties: true });
+ *
+ * auth.session.userId = 5;
+ * service.handle(auth);
+ *
+ * expect(getPropertyHistory(auth, 'session.userId')).toMatchObject([
+ *   { type: 'set', value: 5 },
+ *   { type: 'get', value: 5 },
+ * ]);
+ * ```
+ */
+export const getPropertyHistory = (
+	mock: unknown,
+	path?: string,
+): PropertyAccess[] => {
+	const root = getMockState(mock);
+
+	if (!root?.history) {
+		throw new Error(
+			'getPropertyHistory expects a mock created with trackProperties enabled',
+		);
+	}
+
+	const fullPath = path === undefined ? undefined : joinPath(root.name, path);
+	const accesses: PropertyAccess[] = [];
+
+	walkMockStates(mock, (state) => {
+		for (const access of state.history ?? []) {
+			if (fullPath === undefined || access.path === fullPath) {
+				accesses.push({ ...access });
+			}
+		}
+	});
+
+	return accesses.sort((a, b) => a.sequence - b.sequence);
+};
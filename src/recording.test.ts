@@ -0,0 +1,210 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockFromRecording, type Recording } from './recording';
+
+interface Repo {
+	id: number;
+	name: string;
+	owner: { login: string };
+	star: () => number;
+}
+
+interface GitHubApi {
+	baseUrl: string;
+	repos: {
+		get: (name: string) => Promise<Repo>;
+		remove: (name: string) => Promise<void>;
+	};
+	rateLimit: () => number;
+	version: () => string;
+}
+
+class FakeGitHubApi implements GitHubApi {
+	baseUrl = 'https://api.github.com';
+	#remaining = 60;
+	repos = {
+		get: async (name: string): Promise<Repo> => {
+			if (name === 'missing') {
+				throw new Error('Not Found');
+			}
+
+			let stars = 0;
+			return {
+				id: name.length,
+				name,
+				owner: { login: name.split('/')[0] ?? '' },
+				star: () => ++stars,
+			};
+		},
+		remove: async () => {},
+	};
+
+	rateLimit() {
+		return this.#remaining--;
+	}
+
+	version() {
+		return '2022-11-28';
+	}
+}
+
+describe('createMockFromRecording', () => {
+	let dir: string;
+	let file: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'vitest-create-mock-'));
+		file = join(dir, 'fixtures', 'github.json');
+	});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	const record = async () => {
+		const api = createMockFromRecording<GitHubApi>(file, {
+			mode: 'record',
+			real: () => new FakeGitHubApi(),
+		});
+
+		api.rateLimit();
+		api.rateLimit();
+		const repo = await api.repos.get('vitest-dev/vitest');
+		repo.star();
+		await expect(api.repos.get('missing')).rejects.toThrow('Not Found');
+
+		return api;
+	};
+
+	describe('record mode', () => {
+		it('should call through to the real implementation', async () => {
+			const api = await record();
+
+			expect(api.version()).toBe('2022-11-28');
+			expect(api.rateLimit).toHaveBeenCalledTimes(2);
+			expect(api.repos.get).toHaveBeenCalledWith('vitest-dev/vitest');
+		});
+
+		it('should write every call to the fixture', async () => {
+			await record();
+
+			const recording: Recording = JSON.parse(readFileSync(file, 'utf8'));
+
+			expect(recording.value).toEqual({
+				baseUrl: 'https://api.github.com',
+				repos: {},
+			});
+			expect(recording.calls).toEqual([
+				{ path: 'rateLimit', args: [], result: { type: 'return', value: 60 } },
+				{ path: 'rateLimit', args: [], result: { type: 'return', value: 59 } },
+				{
+					path: 'repos.get',
+					args: ['vitest-dev/vitest'],
+					result: {
+						type: 'resolve',
+						mock: true,
+						value: {
+							id: 17,
+							name: 'vitest-dev/vitest',
+							owner: { login: 'vitest-dev' },
+						},
+					},
+				},
+				{
+					path: 'repos.get().star',
+					args: [],
+					result: { type: 'return', value: 1 },
+				},
+				{
+					path: 'repos.get',
+					args: ['missing'],
+					result: {
+						type: 'reject',
+						error: { name: 'Error', message: 'Not Found' },
+					},
+				},
+			]);
+		});
+
+		it('should be enabled by the environment variable', () => {
+			vi.stubEnv('VITEST_CREATE_MOCK_RECORD', '1');
+
+			const api = createMockFromRecording<GitHubApi>(file, {
+				real: () => new FakeGitHubApi(),
+			});
+			api.version();
+
+			expect(existsSync(file)).toBe(true);
+		});
+
+		it('should require the real implementation', () => {
+			expect(() =>
+				createMockFromRecording<GitHubApi>(file, { mode: 'record' }),
+			).toThrow(
+				`Cannot record ${file}: pass the real implementation as options.real`,
+			);
+		});
+	});
+
+	describe('replay mode', () => {
+		it('should replay recorded results for matching arguments', async () => {
+			await record();
+
+			const api = createMockFromRecording<GitHubApi>(file);
+
+			expect(api.baseUrl).toBe('https://api.github.com');
+			expect(api.rateLimit()).toBe(60);
+			expect(api.rateLimit()).toBe(59);
+			expect(api.rateLimit()).toBe(59);
+
+			const repo = await api.repos.get('vitest-dev/vitest');
+			expect(repo.name).toBe('vitest-dev/vitest');
+			expect(repo.owner.login).toBe('vitest-dev');
+			expect(repo.star()).toBe(1);
+			expect(repo.star).toHaveBeenCalledOnce();
+
+			await expect(api.repos.get('missing')).rejects.toThrow('Not Found');
+			expect(api.repos.get).toHaveBeenCalledTimes(2);
+		});
+
+		it('should throw on calls that were not recorded', async () => {
+			await record();
+
+			const api = createMockFromRecording<GitHubApi>(file, { name: 'api' });
+
+			expect(() => api.repos.get('vitest-dev/vite')).toThrow(
+				[
+					'No recorded call matches api.repos.get("vitest-dev/vite")',
+					'Recorded calls:',
+					'  api.repos.get("vitest-dev/vitest")',
+					'  api.repos.get("missing")',
+				].join('\n'),
+			);
+			expect(() => api.repos.remove('vitest-dev/vitest')).toThrow(
+				'api.repos.remove',
+			);
+		});
+
+		it('should auto-mock calls that were not recorded when configured to', async () => {
+			await record();
+
+			const api = createMockFromRecording<GitHubApi>(file, {
+				onUnrecorded: 'auto',
+			});
+			api.version.mockReturnValue('v3');
+
+			expect(api.version()).toBe('v3');
+			expect(api.repos.get('vitest-dev/vite')).toBeDefined();
+			await expect(api.repos.get('missing')).rejects.toThrow('Not Found');
+		});
+
+		it('should explain how to record a missing fixture', () => {
+			expect(() => createMockFromRecording<GitHubApi>(file)).toThrow(
+				`No recording found at ${file}. Run the test with VITEST_CREATE_MOCK_RECORD=1 to record one`,
+			);
+		});
+	});
+});
@@ -0,0 +1,379 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { formatCall } from './format';
+import {
+	createContext,
+	createMock,
+	type DeepMocked,
+	type MockOptions,
+	type PartialFuncReturn,
+} from './mocks';
+import { joinPath, splitPath } from './paths';
+import { createSpyProxy, isSpyable, type SpyInterceptor } from './spy';
+
+/**
+ * Environment variable that switches createMockFromRecording to record mode when set
+ * to `1` or `true`.
+ */
+export const RECORD_ENV_VAR = 'VITEST_CREATE_MOCK_RECORD';
+
+type RecordedError = { name: string; message: string };
+
+/**
+ * Outcome of a recorded call. Objects returned (or resolved) by a call are replayed as
+ * deep mocks when `mock` is set: `value` then holds their data, and calls made on them
+ * are recorded under the `path()` prefix.
+ */
+export type RecordedResult =
+	| { type: 'return' | 'resolve'; value?: unknown; mock?: boolean }
+	| { type: 'throw' | 'reject'; error: RecordedError };
+
+export type RecordedCall = {
+	/** Path of the function relative to the root, e.g. `users.findById` */
+	path: string;
+	/** Arguments, as JSON */
+	args: unknown[];
+	result: RecordedResult;
+};
+
+/**
+ * Contents of a fixture file.
+ */
+export type Recording = {
+	version: 1;
+	/** Data properties of the recorded object, as JSON */
+	value?: unknown;
+	/** Calls in the order they completed */
+	calls: RecordedCall[];
+};
+
+export type RecordingOptions<T> = Omit<MockOptions, 'callable' | 'expect'> & {
+	/**
+	 * Creates the real implementation to record from. Only called in record mode
+	 */
+	real?: () => T;
+	/**
+	 * Whether to replay the fixture or record a new one, overwriting it
+	 * (default: 'record' if the VITEST_CREATE_MOCK_RECORD environment variable is set)
+	 */
+	mode?: 'record' | 'replay';
+	/**
+	 * What calls that were not recorded do when replaying: throw an error, or fall back
+	 * to auto-mocking (default: 'throw')
+	 */
+	onUnrecorded?: 'throw' | 'auto';
+};
+
+/**
+ * Converts a value to its JSON form, or undefined if it cannot be serialized.
+ */
+const toJson = (value: unknown): unknown => {
+	try {
+		const json = JSON.stringify(value);
+		return json === undefined ? undefined : JSON.parse(json);
+	} catch {
+		return undefined;
+	}
+};
+
+const toRecordedError = (error: unknown): RecordedError =>
+	error instanceof Error
+		? { name: error.name, message: error.message }
+		: { name: 'Error', message: String(error) };
+
+const fromRecordedError = ({ name, message }: RecordedError) =>
+	Object.assign(new Error(message), { name });
+
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+	(typeof value === 'object' || typeof value === 'function') &&
+	value !== null &&
+	typeof (value as { then?: unknown }).then === 'function';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Wraps a real object in a spy that appends every call made anywhere in it (including
+ * on returned objects) to a fixture file.
+ */
+const createRecorder = <T extends object>(
+	file: string,
+	real: T,
+	name: string,
+	options: MockOptions,
+): DeepMocked<T> => {
+	const recording: Recording = { version: 1, calls: [] };
+	const context = createContext({ name, journal: options.journal });
+
+	const save = (call?: RecordedCall) => {
+		if (call) {
+			recording.calls.push(call);
+		}
+		recording.value = toJson(real);
+
+		mkdirSync(dirname(file), { recursive: true });
+		writeFileSync(file, `${JSON.stringify(recording, null, 2)}\n`);
+	};
+
+	const capture = (value: unknown, callName: string) =>
+		isSpyable(value)
+			? {
+					value: toJson(value),
+					mock: true,
+					spy: createSpyProxy(`${callName}()`, context, value, intercept),
+				}
+			: { value: toJson(value), spy: value };
+
+	const intercept: SpyInterceptor = (callName, args, call) => {
+		const path = callName.slice(name.length).replace(/^\./, '');
+		const record = (result: RecordedResult) =>
+			save({ path, args: toJson(args) as unknown[], result });
+
+		let result: unknown;
+		try {
+			result = call();
+		} catch (error) {
+			record({ type: 'throw', error: toRecordedError(error) });
+			throw error;
+		}
+
+		if (isThenable(result)) {
+			return Promise.resolve(result).then(
+				(resolved) => {
+					const { spy, ...captured } = capture(resolved, callName);
+					record({ type: 'resolve', ...captured });
+					return spy;
+				},
+				(error) => {
+					record({ type: 'reject', error: toRecordedError(error) });
+					throw error;
+				},
+			);
+		}
+
+		const { spy, ...captured } = capture(result, callName);
+		record({ type: 'return', ...captured });
+		return spy;
+	};
+
+	save();
+
+	return createSpyProxy(name, context, real, intercept) as DeepMocked<T>;
+};
+
+/**
+ * Recorded calls arranged by path: calls to the function at a node, and the nodes
+ * below it (`()` for the objects it returned).
+ */
+type RecordingNode = {
+	calls: RecordedCall[];
+	children: Map<string, RecordingNode>;
+};
+
+const createNode = (): RecordingNode => ({ calls: [], children: new Map() });
+
+const buildTree = (calls: RecordedCall[]): RecordingNode => {
+	const root = createNode();
+
+	for (const call of calls) {
+		let node = root;
+
+		for (const segment of splitPath(call.path)) {
+			let child = node.children.get(segment);
+			if (!child) {
+				child = createNode();
+				node.children.set(segment, child);
+			}
+			node = child;
+		}
+
+		node.calls.push(call);
+	}
+
+	return root;
+};
+
+/**
+ * Builds a mock that replays the calls of a recording tree.
+ */
+const createReplay = (
+	node: RecordingNode,
+	name: string,
+	data: unknown,
+	options: MockOptions & { onUnrecorded: 'throw' | 'auto' },
+): object => {
+	const { onUnrecorded, ...mockOptions } = options;
+	const partial: Record<string, unknown> = isRecord(data) ? { ...data } : {};
+
+	// Objects with recorded functions below them become nested replays
+	for (const [key, child] of node.children) {
+		if (key !== '()' && child.calls.length === 0) {
+			partial[key] = createReplay(
+				child,
+				joinPath(name, key),
+				partial[key],
+				options,
+			);
+		}
+	}
+
+	const mock = createMock<Record<string, unknown>>(
+		partial as PartialFuncReturn<Record<string, unknown>>,
+		{
+			...mockOptions,
+			name,
+			strict: onUnrecorded === 'throw' || mockOptions.strict,
+		},
+	);
+
+	for (const [key, child] of node.children) {
+		if (key !== '()' && child.calls.length > 0) {
+			stubRecordedCalls(
+				// biome-ignore lint/suspicious/noExplicitAny: members are only known from the recording
+				(mock as any)[key],
+				child,
+				joinPath(name, key),
+				options,
+			);
+		}
+	}
+
+	return mock;
+};
+
+/**
+ * Stubs a mocked function so that each recorded argument list returns its recorded
+ * results, in order, repeating the last one.
+ */
+const stubRecordedCalls = (
+	// biome-ignore lint/suspicious/noExplicitAny: members are only known from the recording
+	fn: any,
+	node: RecordingNode,
+	name: string,
+	options: MockOptions & { onUnrecorded: 'throw' | 'auto' },
+) => {
+	const returned = node.children.get('()') ?? createNode();
+	const replays = new Map<RecordedResult, object>();
+	const byArgs = new Map<string, RecordedCall[]>();
+
+	for (const call of node.calls) {
+		const key = JSON.stringify(call.args);
+		byArgs.set(key, [...(byArgs.get(key) ?? []), call]);
+	}
+
+	const replay = (result: RecordedResult) => {
+		if ('error' in result) {
+			const error = fromRecordedError(result.error);
+			if (result.type === 'throw') {
+				throw error;
+			}
+			return Promise.reject(error);
+		}
+
+		let value = result.value;
+		if (result.mock) {
+			value =
+				replays.get(result) ??
+				createReplay(returned, `${name}()`, result.value, options);
+			replays.set(result, value as object);
+		}
+
+		return result.type === 'resolve' ? Promise.resolve(value) : value;
+	};
+
+	if (options.onUnrecorded === 'throw') {
+		fn.mockImplementation((...args: unknown[]) => {
+			throw new Error(
+				[
+					`No recorded call matches ${formatCall(name, args)}`,
+					'Recorded calls:',
+					...[...byArgs.values()].map(
+						([call]) => `  ${formatCall(name, call?.args ?? [])}`,
+					),
+				].join('\n'),
+			);
+		});
+	}
+
+	for (const calls of byArgs.values()) {
+		let index = 0;
+
+		fn.calledWith(...(calls[0]?.args ?? [])).mockImplementation(() => {
+			const call = calls[Math.min(index++, calls.length - 1)];
+			return call && replay(call.result);
+		});
+	}
+};
+
+const readRecording = (file: string): Recording => {
+	let contents: string;
+
+	try {
+		contents = readFileSync(file, 'utf8');
+	} catch {
+		throw new Error(
+			`No recording found at ${file}. Run the test with ${RECORD_ENV_VAR}=1 to record one`,
+		);
+	}
+
+	return JSON.parse(contents) as Recording;
+};
+
+const isRecordMode = () => {
+	const value = process.env[RECORD_ENV_VAR];
+	return value === '1' || value === 'true';
+};
+
+/**
+ * Replays a fixture of recorded calls as a deep mock: each recorded function returns
+ * (or resolves, throws, rejects) what it did for the same arguments, and objects it
+ * returned are deep mocks themselves. Calls that were not recorded throw, or fall back
+ * to auto-mocking with `onUnrecorded: 'auto'`.
+ *
+ * In record mode (`mode: 'record'`, or the VITEST_CREATE_MOCK_RECORD environment
+ * variable set to `1`), the real implementation from `options.real` is used instead,
+ * wrapped in a spy, and every call made through it is written to the fixture.
+ *
+ * @param file - Path of the JSON fixture
+ * @param options - Optional configuration (real implementation, mode, name, strictness)
+ * @returns A deeply mocked T
+ *
+ * @example
+ * ```typescript
+ * // VITEST_CREATE_MOCK_RECORD=1 vitest run records, vitest run replays
+ * const api = createMockFromRecording<GitHubApi>('__fixtures__/github.json', {
+ *   real: () => new GitHubApi(localToken),
+ * });
+ *
+ * const repo = await api.repos.get('vitest-dev/vitest');
+ * ```
+ */
+export const createMockFromRecording = <T extends object>(
+	file: string,
+	options: RecordingOptions<T> = {},
+): DeepMocked<T> => {
+	const {
+		real,
+		mode = isRecordMode() ? 'record' : 'replay',
+		onUnrecorded = 'throw',
+		name = 'mock',
+		...mockOptions
+	} = options;
+
+	if (mode === 'record') {
+		if (!real) {
+			throw new Error(
+				`Cannot record ${file}: pass the real implementation as options.real`,
+			);
+		}
+
+		return createRecorder(file, real(), name, mockOptions);
+	}
+
+	const recording = readRecording(file);
+
+	return createReplay(buildTree(recording.calls), name, recording.value, {
+		...mockOptions,
+		onUnrecorded,
+	}) as DeepMocked<T>;
+};
@@ -0,0 +1,168 @@
+import { expect } from 'vitest';
+import { forgetTestExpectations, verifyExpectations } from './expectations';
+import { plural } from './format';
+import {
+	clearMock,
+	type MockLifecycleOptions,
+	resetMock,
+	restoreMock,
+} from './lifecycle';
+import { getMockState } from './state';
+import { clearStrictViolations, getStrictViolations } from './strict';
+
+export type MockRegistryOptions = MockLifecycleOptions & {
+	/**
+	 * What happens to every registered mock after each test: `clearMock`, `resetMock`,
+	 * `restoreMock`, or nothing with `false` (default: 'clear')
+	 */
+	afterEach?: 'clear' | 'reset' | 'restore' | false;
+	/**
+	 * Verify the expectations of every registered mock after each test, see
+	 * verifyExpectations (default: true)
+	 */
+	verifyExpectations?: boolean;
+	/**
+	 * Warn when a mock is created outside of a test (at module scope, in a `describe`
+	 * body or a `beforeAll` hook), since it shares state across tests (default: true)
+	 */
+	warnOutsideTests?: boolean;
+	/**
+	 * Warn about the calls mocks created with `strict: 'warn'` recorded during each
+	 * test, see getStrictViolations (default: true)
+	 */
+	warnStrictViolations?: boolean;
+};
+
+type MockRegistry = {
+	options: MockRegistryOptions;
+	/** Mocks created during the current test, forgotten after it */
+	testMocks: Set<unknown>;
+	/** Mocks created outside of tests, which live as long as the test file */
+	sharedMocks: Set<unknown>;
+};
+
+// Only exists once the setup entry has been imported
+let registry: MockRegistry | undefined;
+
+const lifecycles = {
+	clear: clearMock,
+	reset: resetMock,
+	restore: restoreMock,
+};
+
+/**
+ * Starts registering mocks created by `createMock`, see `vitest-create-mock/setup`.
+ */
+export const enableMockRegistry = () => {
+	registry ??= {
+		options: {},
+		testMocks: new Set(),
+		sharedMocks: new Set(),
+	};
+};
+
+/**
+ * Configures what the setup entry does with registered mocks. Call it from a setup
+ * file that runs after `vitest-create-mock/setup`, or at the top of a test file.
+ *
+ * @param options - Lifecycle applied after each test, and warnings
+ *
+ * @example
+ * ```typescript
+ * // vitest.setup.ts
+ * import { configureMockRegistry } from 'vitest-create-mock/setup';
+ *
+ * configureMockRegistry({ afterEach: 'reset', dropChildren: true });
+ * ```
+ */
+export const configureMockRegistry = (options: MockRegistryOptions) => {
+	enableMockRegistry();
+
+	if (registry) {
+		registry.options = { ...registry.options, ...options };
+	}
+};
+
+/**
+ * Registers a root mock with the registry, if the setup entry enabled it.
+ */
+export const registerMock = <T>(mock: T): T => {
+	if (!registry) {
+		return mock;
+	}
+
+	if (expect.getState().currentTestName !== undefined) {
+		registry.testMocks.add(mock);
+		return mock;
+	}
+
+	registry.sharedMocks.add(mock);
+
+	if (registry.options.warnOutsideTests ?? true) {
+		const name = getMockState(mock)?.name ?? 'mock';
+
+		console.warn(
+			`vitest-create-mock: ${name} was created outside of a test, so its calls and stubs are shared across tests. Create it in the test or a beforeEach hook instead`,
+		);
+	}
+
+	return mock;
+};
+
+/**
+ * Warns about the strict mode violations recorded during the test, once, and forgets
+ * them.
+ */
+const reportStrictViolations = (warn: boolean) => {
+	const violations = getStrictViolations();
+	clearStrictViolations();
+
+	if (!warn || violations.length === 0) {
+		return;
+	}
+
+	const test = violations[0].test;
+
+	console.warn(
+		[
+			`vitest-create-mock: ${plural(violations.length, 'call')} to unstubbed functions with strict: 'warn'${test ? ` in "${test}"` : ''}:`,
+			...violations.map(({ message }) => message),
+		].join('\n'),
+	);
+};
+
+/**
+ * Verifies the expectations of every registered mock, then applies the configured
+ * lifecycle to them, reports the strict mode violations, forgets the expectations
+ * declared by the test that just ended and the mocks it created.
+ */
+export const applyMockLifecycle = () => {
+	if (!registry) {
+		return;
+	}
+
+	const {
+		afterEach = 'clear',
+		verifyExpectations: verify = true,
+		warnOutsideTests: _,
+		warnStrictViolations = true,
+		...options
+	} = registry.options;
+	const mocks = [...registry.sharedMocks, ...registry.testMocks];
+
+	try {
+		if (verify) {
+			verifyExpectations(...mocks);
+		}
+	} finally {
+		for (const mock of mocks) {
+			if (afterEach) {
+				lifecycles[afterEach](mock, options);
+			}
+			forgetTestExpectations(mock);
+		}
+
+		reportStrictViolations(warnStrictViolations);
+		registry.testMocks.clear();
+	}
+};
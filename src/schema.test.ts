@@ -0,0 +1,169 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { createMockFromSchema, type JsonSchema, schemaAdapter } from './schema';
+
+interface User {
+	id: string;
+	email: string;
+	name: string;
+	age: number;
+	score: number;
+	active: boolean;
+	role: 'admin' | 'user';
+	tags: string[];
+	address: { city: string; zip?: string };
+	createdAt: string;
+	greet: () => string;
+}
+
+const userSchema: JsonSchema = {
+	type: 'object',
+	properties: {
+		id: { type: 'string', format: 'uuid' },
+		email: { type: 'string', format: 'email' },
+		name: { type: 'string', minLength: 3, maxLength: 10 },
+		age: { type: 'integer', minimum: 18, maximum: 99 },
+		score: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 },
+		active: { type: 'boolean' },
+		role: { enum: ['admin', 'user'] },
+		tags: { type: 'array', items: { type: 'string' }, minItems: 2 },
+		address: {
+			type: 'object',
+			properties: { city: { type: 'string' }, zip: { type: 'string' } },
+			required: ['city'],
+		},
+		createdAt: { type: 'string', format: 'date-time' },
+	},
+	required: ['id', 'email'],
+};
+
+describe('createMockFromSchema', () => {
+	it('should generate values that conform to the schema', () => {
+		const user = createMockFromSchema<User>(userSchema);
+
+		expect(user.id).toMatch(
+			/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+		);
+		expect(user.email).toMatch(/^[a-z0-9]+@example\.com$/);
+		expect(user.name.length).toBeGreaterThanOrEqual(3);
+		expect(user.name.length).toBeLessThanOrEqual(10);
+		expect(Number.isInteger(user.age)).toBe(true);
+		expect(user.age).toBeGreaterThanOrEqual(18);
+		expect(user.age).toBeLessThanOrEqual(99);
+		expect(user.score).toBeGreaterThan(0);
+		expect(user.score).toBeLessThan(1);
+		expect(typeof user.active).toBe('boolean');
+		expect(['admin', 'user']).toContain(user.role);
+		expect(user.tags).toHaveLength(2);
+		expect(typeof user.tags[0]).toBe('string');
+		expect(typeof user.address.city).toBe('string');
+		expect(new Date(user.createdAt).toISOString()).toBe(user.createdAt);
+	});
+
+	it('should produce the same values for the same seed', () => {
+		const first = createMockFromSchema<User>(userSchema, {}, { seed: 7 });
+		const second = createMockFromSchema<User>(userSchema, {}, { seed: 7 });
+		const other = createMockFromSchema<User>(userSchema, {}, { seed: 8 });
+
+		expect(second.id).toBe(first.id);
+		expect(second.address).toEqual(first.address);
+		expect(other.id).not.toBe(first.id);
+	});
+
+	it('should deeply merge partial overrides over generated values', () => {
+		const user = createMockFromSchema<User>(userSchema, {
+			age: 30,
+			address: { zip: '12345' },
+			greet: () => 'hi',
+		});
+
+		expect(user.age).toBe(30);
+		expect(user.address.zip).toBe('12345');
+		expect(typeof user.address.city).toBe('string');
+		expect(user.greet()).toBe('hi');
+		expect(user.greet).toHaveBeenCalledOnce();
+	});
+
+	it('should auto-mock members the schema does not describe', () => {
+		const user = createMockFromSchema<User>(userSchema);
+
+		user.greet.mockReturnValue('hello');
+
+		expect(user.greet()).toBe('hello');
+	});
+
+	it('should prefer const, default and examples', () => {
+		const config = createMockFromSchema({
+			type: 'object',
+			properties: {
+				version: { const: 2 },
+				mode: { type: 'string', default: 'fast' },
+				host: { type: 'string', examples: ['localhost'] },
+			},
+		});
+
+		expect(config.version).toBe(2);
+		expect(config.mode).toBe('fast');
+		expect(config.host).toBe('localhost');
+	});
+
+	it('should resolve refs and terminate on recursive schemas', () => {
+		const tree = createMockFromSchema({
+			type: 'object',
+			properties: { root: { $ref: '#/$defs/node' } },
+			$defs: {
+				node: {
+					type: 'object',
+					properties: {
+						value: { type: 'integer', multipleOf: 5 },
+						children: { type: 'array', items: { $ref: '#/$defs/node' } },
+						parent: { anyOf: [{ type: 'null' }, { $ref: '#/$defs/node' }] },
+					},
+					required: ['value'],
+				},
+			},
+		});
+
+		expect(tree.root.value % 5).toBe(0);
+		expect(Array.isArray(tree.root.children)).toBe(true);
+		expect(typeof tree.root.parent.value).toBe('number');
+	});
+
+	it('should merge allOf schemas and pick nullable types', () => {
+		const entity = createMockFromSchema({
+			allOf: [
+				{ type: 'object', properties: { id: { type: 'integer' } } },
+				{ properties: { label: { type: ['null', 'string'] } } },
+			],
+		});
+
+		expect(typeof entity.id).toBe('number');
+		expect(typeof entity.label).toBe('string');
+	});
+
+	it('should reject schemas that do not describe an object', () => {
+		expect(() => createMockFromSchema({ type: 'string' })).toThrow(
+			'createMockFromSchema requires a schema that describes an object',
+		);
+	});
+
+	it('should accept validators through an adapter', () => {
+		const validator = {
+			_output: undefined as unknown as { id: number; name: string },
+			shape: { id: 'number', name: 'string' } as const,
+		};
+		const toJsonSchema = (schema: typeof validator): JsonSchema => ({
+			type: 'object',
+			properties: Object.fromEntries(
+				Object.entries(schema.shape).map(([key, type]) => [key, { type }]),
+			),
+		});
+
+		const user = createMockFromSchema(schemaAdapter(validator, toJsonSchema), {
+			name: 'Alice',
+		});
+
+		expectTypeOf(user.id).toEqualTypeOf<number>();
+		expect(typeof user.id).toBe('number');
+		expect(user.name).toBe('Alice');
+	});
+});
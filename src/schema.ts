@@ -0,0 +1,477 @@
+import {
+	type CreateMockArgs,
+	createMock,
+	type DeepMocked,
+	type MockOptions,
+	type PartialFuncReturn,
+} from './mocks';
+import { getMockState } from './state';
+
+type JsonSchemaType =
+	| 'array'
+	| 'boolean'
+	| 'integer'
+	| 'null'
+	| 'number'
+	| 'object'
+	| 'string';
+
+/**
+ * The subset of JSON Schema (draft-07 through 2020-12) used to generate values.
+ * Unknown keywords are allowed and ignored.
+ */
+export type JsonSchema = {
+	type?: JsonSchemaType | JsonSchemaType[];
+	const?: unknown;
+	enum?: unknown[];
+	default?: unknown;
+	examples?: unknown[];
+	format?: string;
+	minLength?: number;
+	maxLength?: number;
+	minimum?: number;
+	maximum?: number;
+	exclusiveMinimum?: number | boolean;
+	exclusiveMaximum?: number | boolean;
+	multipleOf?: number;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	items?: JsonSchema | JsonSchema[];
+	prefixItems?: JsonSchema[];
+	minItems?: number;
+	maxItems?: number;
+	anyOf?: JsonSchema[];
+	oneOf?: JsonSchema[];
+	allOf?: JsonSchema[];
+	$ref?: string;
+	$defs?: Record<string, JsonSchema>;
+	definitions?: Record<string, JsonSchema>;
+	[keyword: string]: unknown;
+};
+
+/**
+ * Bridges a validation library (Zod, Valibot, ArkType…) to createMockFromSchema by
+ * converting its schemas to JSON Schema. `T` is the type of the values it describes.
+ */
+export type SchemaAdapter<T = unknown> = {
+	/** Returns the JSON Schema equivalent of the validator */
+	toJsonSchema: () => JsonSchema;
+	/** Type-only marker for `T`, never read */
+	readonly __type?: T;
+};
+
+/**
+ * Output type of a Zod-like validator, read from its `_output` type marker.
+ */
+type InferOutput<V> = V extends { _output: infer T } ? T : unknown;
+
+/**
+ * Creates a SchemaAdapter from a validator and the function that converts it to JSON
+ * Schema, inferring the mocked type from the validator when it exposes one (as Zod
+ * schemas do through `_output`).
+ *
+ * @param validator - The validator schema, e.g. a Zod object schema
+ * @param toJsonSchema - Converts the validator to JSON Schema, e.g. `z.toJSONSchema`
+ *
+ * @example
+ * ```typescript
+ * const user = createMockFromSchema(schemaAdapter(UserSchema, z.toJSONSchema));
+ * ```
+ */
+export const schemaAdapter = <V>(
+	validator: V,
+	toJsonSchema: (validator: V) => JsonSchema,
+): SchemaAdapter<InferOutput<V>> => ({
+	toJsonSchema: () => toJsonSchema(validator),
+});
+
+export type SchemaMockOptions<T = unknown> = MockOptions<T> & {
+	/**
+	 * Seed for the generated values. The same seed and schema always produce the same
+	 * values (default: a random seed)
+	 */
+	seed?: number;
+};
+
+/**
+ * Below this depth every property and array item is generated, beyond it only what
+ * the schema requires, so recursive schemas terminate.
+ */
+const optionalDepth = 4;
+
+/**
+ * Hard stop for schemas that require themselves.
+ */
+const maxDepth = 16;
+
+/**
+ * Small seedable PRNG (mulberry32) returning floats in [0, 1).
+ */
+const createRandom = (seed: number) => {
+	let state = seed >>> 0;
+
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+type Generator = {
+	root: JsonSchema;
+	random: () => number;
+};
+
+const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+const randomInt = (gen: Generator, min: number, max: number) =>
+	min + Math.floor(gen.random() * (max - min + 1));
+
+const pick = <T>(gen: Generator, values: readonly T[]): T =>
+	values[randomInt(gen, 0, values.length - 1)] as T;
+
+const randomWord = (gen: Generator, length: number) =>
+	Array.from({ length }, () => pick(gen, [...alphabet])).join('');
+
+const randomHex = (gen: Generator, length: number) =>
+	Array.from({ length }, () => randomInt(gen, 0, 15).toString(16)).join('');
+
+const resolveRef = (gen: Generator, ref: string): JsonSchema => {
+	if (ref === '#') {
+		return gen.root;
+	}
+
+	if (!ref.startsWith('#/')) {
+		throw new Error(
+			`Unsupported schema reference ${ref}: only local refs work`,
+		);
+	}
+
+	// biome-ignore lint/suspicious/noExplicitAny: walking arbitrary schema keywords
+	let schema: any = gen.root;
+	for (const segment of ref.slice(2).split('/')) {
+		schema = schema?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+	}
+
+	if (!schema || typeof schema !== 'object') {
+		throw new Error(`Schema reference ${ref} could not be resolved`);
+	}
+
+	return schema;
+};
+
+const generateString = (gen: Generator, schema: JsonSchema, key: string) => {
+	const word = randomWord(gen, 6);
+
+	switch (schema.format) {
+		case 'email':
+			return `${word}@example.com`;
+		case 'uri':
+		case 'url':
+			return `https://example.com/${word}`;
+		case 'hostname':
+			return `${word}.example.com`;
+		case 'ipv4':
+			return `192.0.2.${randomInt(gen, 1, 254)}`;
+		case 'uuid':
+			return `${randomHex(gen, 8)}-${randomHex(gen, 4)}-4${randomHex(gen, 3)}-${pick(gen, ['8', '9', 'a', 'b'])}${randomHex(gen, 3)}-${randomHex(gen, 12)}`;
+		case 'date-time':
+		case 'date':
+		case 'time': {
+			// Somewhere in 2020-2029
+			const iso = new Date(
+				Date.UTC(2020, 0, 1) + randomInt(gen, 0, 10 * 365 * 24 * 3600) * 1000,
+			).toISOString();
+
+			if (schema.format === 'date') {
+				return iso.slice(0, 10);
+			}
+			return schema.format === 'time' ? iso.slice(11, 19) : iso;
+		}
+	}
+
+	let value = `${key || 'string'}-${word}`;
+	const { minLength = 0, maxLength } = schema;
+
+	if (value.length < minLength) {
+		value += randomWord(gen, minLength - value.length);
+	}
+
+	return maxLength === undefined ? value : value.slice(0, maxLength);
+};
+
+const generateNumber = (
+	gen: Generator,
+	schema: JsonSchema,
+	integer: boolean,
+) => {
+	const step = schema.multipleOf ?? (integer ? 1 : 0);
+
+	// Draft-04 flags the bounds as exclusive, draft-06+ gives the exclusive bound itself
+	let min = schema.minimum;
+	let max = schema.maximum;
+	let minExclusive = schema.exclusiveMinimum === true;
+	let maxExclusive = schema.exclusiveMaximum === true;
+
+	if (
+		typeof schema.exclusiveMinimum === 'number' &&
+		(min === undefined || schema.exclusiveMinimum >= min)
+	) {
+		min = schema.exclusiveMinimum;
+		minExclusive = true;
+	}
+	if (
+		typeof schema.exclusiveMaximum === 'number' &&
+		(max === undefined || schema.exclusiveMaximum <= max)
+	) {
+		max = schema.exclusiveMaximum;
+		maxExclusive = true;
+	}
+
+	// Unbounded sides default to a range of 1000 that includes 0 where possible
+	min ??= max === undefined ? 0 : Math.min(0, max - 1000);
+	max ??= min + 1000;
+
+	if (!step) {
+		if (max <= min) {
+			return min;
+		}
+
+		// Stay clear of the bounds so exclusive ones hold, and keep it readable
+		const value = min + (max - min) * (0.1 + 0.8 * gen.random());
+		const rounded = Math.round(value * 100) / 100;
+		return rounded > min && rounded < max ? rounded : value;
+	}
+
+	let first = Math.ceil(min / step);
+	let last = Math.floor(max / step);
+	if (minExclusive && first * step === min) {
+		first++;
+	}
+	if (maxExclusive && last * step === max) {
+		last--;
+	}
+
+	return last < first ? first * step : randomInt(gen, first, last) * step;
+};
+
+const generateArray = (
+	gen: Generator,
+	schema: JsonSchema,
+	key: string,
+	depth: number,
+): unknown[] => {
+	const tuple =
+		schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : []);
+	const items = Array.isArray(schema.items) ? undefined : schema.items;
+	const { minItems = 0, maxItems = Number.POSITIVE_INFINITY } = schema;
+
+	const length = Math.min(
+		maxItems,
+		Math.max(minItems, tuple.length, depth < optionalDepth && items ? 1 : 0),
+	);
+
+	return Array.from({ length }, (_, index) => {
+		const itemSchema = tuple[index] ?? items;
+		return itemSchema ? generate(gen, itemSchema, key, depth + 1) : null;
+	});
+};
+
+const generateObject = (
+	gen: Generator,
+	schema: JsonSchema,
+	depth: number,
+): Record<string, unknown> => {
+	const required = new Set(schema.required);
+	const value: Record<string, unknown> = {};
+
+	for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+		if (depth < optionalDepth || required.has(key)) {
+			value[key] = generate(gen, propertySchema, key, depth + 1);
+		}
+	}
+
+	return value;
+};
+
+/**
+ * Merges the schemas of an `allOf`, combining their properties and requirements.
+ */
+const mergeAll = (gen: Generator, schemas: JsonSchema[]): JsonSchema => {
+	const merged: JsonSchema = { properties: {}, required: [] };
+
+	for (const part of schemas) {
+		const schema = part.$ref ? resolveRef(gen, part.$ref) : part;
+		const { properties, required, ...rest } = schema;
+
+		Object.assign(merged, rest);
+		Object.assign(merged.properties as object, properties);
+		merged.required?.push(...(required ?? []));
+	}
+
+	return merged;
+};
+
+/**
+ * Generates a value that conforms to `schema`.
+ *
+ * @param key - Name of the property being generated, used to make strings readable
+ * @param depth - Nesting level, used to stop expanding recursive schemas
+ */
+const generate = (
+	gen: Generator,
+	schema: JsonSchema,
+	key: string,
+	depth: number,
+): unknown => {
+	if (depth > maxDepth) {
+		return null;
+	}
+
+	if ('const' in schema) {
+		return schema.const;
+	}
+	if ('default' in schema) {
+		return schema.default;
+	}
+	if (schema.examples?.length) {
+		return schema.examples[0];
+	}
+	if (schema.enum?.length) {
+		return pick(gen, schema.enum);
+	}
+
+	if (schema.$ref) {
+		return generate(gen, resolveRef(gen, schema.$ref), key, depth);
+	}
+
+	if (schema.allOf) {
+		const { allOf, ...rest } = schema;
+		return generate(gen, mergeAll(gen, [rest, ...allOf]), key, depth);
+	}
+
+	const options = schema.anyOf ?? schema.oneOf;
+	if (options?.length) {
+		// Prefer an option that describes an actual value over `null`
+		const option =
+			options.find((candidate) => candidate.type !== 'null') ?? options[0];
+		return generate(gen, option as JsonSchema, key, depth);
+	}
+
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+	const type =
+		types.find((candidate) => candidate && candidate !== 'null') ??
+		types[0] ??
+		(schema.properties ? 'object' : schema.items ? 'array' : undefined);
+
+	switch (type) {
+		case 'string':
+			return generateString(gen, schema, key);
+		case 'number':
+		case 'integer':
+			return generateNumber(gen, schema, type === 'integer');
+		case 'boolean':
+			return gen.random() < 0.5;
+		case 'array':
+			return generateArray(gen, schema, key, depth);
+		case 'object':
+			return generateObject(gen, schema, depth);
+		default:
+			return null;
+	}
+};
+
+const isPlainObject = (
+	value: unknown,
+): value is Record<PropertyKey, unknown> => {
+	if (typeof value !== 'object' || value === null || getMockState(value)) {
+		return false;
+	}
+
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Deeply merges `partial` over the generated `defaults`. Plain objects are merged key
+ * by key, anything else in `partial` (mocks, functions, arrays) replaces the default.
+ */
+const mergePartial = (
+	defaults: Record<PropertyKey, unknown>,
+	partial: Record<PropertyKey, unknown>,
+): Record<PropertyKey, unknown> => {
+	const merged = { ...defaults };
+
+	for (const key of Reflect.ownKeys(partial)) {
+		const value = partial[key];
+		const current = merged[key];
+
+		merged[key] =
+			isPlainObject(value) && isPlainObject(current)
+				? mergePartial(current, value)
+				: value;
+	}
+
+	return merged;
+};
+
+/**
+ * Creates a deep mock whose properties are filled with values that conform to a
+ * schema: strings (honouring formats such as `email`, `uuid` or `date-time`), numbers
+ * within their bounds, arrays and nested objects. Members the schema does not describe,
+ * such as methods, are auto-mocked as usual.
+ *
+ * Pass a JSON Schema directly, or wrap a validator with `schemaAdapter` (or any
+ * `SchemaAdapter`) to use Zod and similar libraries.
+ *
+ * @param schema - JSON Schema of an object, or an adapter producing one
+ * @param partial - Optional values that override the generated ones, merged deeply
+ * @param options - Optional configuration (name, strict mode, seed)
+ * @returns A deeply mocked T populated from the schema
+ *
+ * @example
+ * ```typescript
+ * const user = createMockFromSchema<User>(
+ *   {
+ *     type: 'object',
+ *     properties: {
+ *       id: { type: 'string', format: 'uuid' },
+ *       email: { type: 'string', format: 'email' },
+ *       age: { type: 'integer', minimum: 18, maximum: 99 },
+ *     },
+ *   },
+ *   { age: 30 },
+ *   { seed: 42 },
+ * );
+ *
+ * user.email.toUpperCase(); // a real string
+ * ```
+ */
+export const createMockFromSchema = <
+	T extends object = Record<string, unknown>,
+>(
+	schema: JsonSchema | SchemaAdapter<T>,
+	partial: PartialFuncReturn<T> = {},
+	options: SchemaMockOptions<T> = {},
+): DeepMocked<T> => {
+	const { seed = Math.floor(Math.random() * 2 ** 32), ...mockOptions } =
+		options;
+	const root =
+		typeof schema.toJsonSchema === 'function'
+			? (schema as SchemaAdapter<T>).toJsonSchema()
+			: (schema as JsonSchema);
+	const gen: Generator = { root, random: createRandom(seed) };
+
+	const defaults = generate(gen, root, '', 0);
+	if (!isPlainObject(defaults)) {
+		throw new Error(
+			'createMockFromSchema requires a schema that describes an object',
+		);
+	}
+
+	return createMock<T>(
+		...([mergePartial(defaults, partial), mockOptions] as CreateMockArgs<T>),
+	);
+};
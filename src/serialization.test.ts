@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMock } from './mocks';
+import { getPropertyHistory } from './properties';
+import { toPlainObject } from './serialization';
+
+interface Request {
+	url: string;
+	headers: Record<string, string>;
+}
+
+interface ExecutionContext {
+	getType: () => string;
+	switchToHttp: () => { getRequest: () => Request };
+	user: { id: number; roles: string[] };
+	createdAt: Date;
+}
+
+describe('toPlainObject', () => {
+	it('copies user-provided and assigned values', () => {
+		const createdAt = new Date('2024-01-01');
+		const ctx = createMock<ExecutionContext>(
+			{ createdAt, user: { id: 1, roles: ['admin'] } },
+			{ name: 'ctx' },
+		);
+
+		expect(toPlainObject(ctx)).toEqual({
+			createdAt,
+			user: { id: 1, roles: ['admin'] },
+		});
+	});
+
+	it('materializes nested mocks with members as objects', () => {
+		const ctx = createMock<ExecutionContext>({}, { name: 'ctx' });
+		ctx.user.id = 2;
+
+		expect(toPlainObject(ctx)).toEqual({ user: { id: 2 } });
+	});
+
+	it('uses placeholders for functions and auto-generated members', () => {
+		const ctx = createMock<ExecutionContext>(
+			{ getType: () => 'http' },
+			{ name: 'ctx' },
+		);
+		ctx.switchToHttp();
+		void ctx.user;
+
+		expect(toPlainObject(ctx)).toEqual({
+			getType: '[Function ctx.getType]',
+			switchToHttp: '[Function ctx.switchToHttp]',
+			user: '[mock ctx.user]',
+		});
+
+		void ctx.getType;
+		expect(toPlainObject(ctx).getType).toBe('[Function ctx.getType]');
+	});
+
+	it('limits the depth', () => {
+		const ctx = createMock<ExecutionContext>(
+			{ user: { id: 1, roles: ['admin'] } },
+			{ name: 'ctx' },
+		);
+
+		expect(toPlainObject(ctx, { depth: 1 })).toEqual({ user: '[Object]' });
+		expect(toPlainObject(ctx, { depth: 2 })).toEqual({
+			user: { id: 1, roles: '[Array]' },
+		});
+	});
+
+	it('marks circular references', () => {
+		const node = createMock<{ parent: unknown; id: number }>(
+			{ id: 1 },
+			{ name: 'node' },
+		);
+		node.parent = node;
+
+		expect(toPlainObject(node)).toEqual({
+			id: 1,
+			parent: '[Circular node]',
+		});
+	});
+
+	it('does not record calls or property accesses', () => {
+		const ctx = createMock<ExecutionContext>(
+			{},
+			{ name: 'ctx', trackProperties: 'accessors' },
+		);
+		ctx.user.id = 3;
+
+		expect(toPlainObject(ctx)).toEqual({ user: { id: 3 } });
+		expect(getPropertyHistory(ctx, 'user.id')).toHaveLength(1);
+	});
+
+	it('refuses values that are not mocks', () => {
+		expect(() => toPlainObject({})).toThrow(
+			'toPlainObject expects a mock created by createMock, received object',
+		);
+	});
+});
+
+describe('JSON serialization', () => {
+	it('serializes mocks as their materialized tree', () => {
+		const ctx = createMock<ExecutionContext>(
+			{ user: { id: 1, roles: [] } },
+			{ name: 'ctx' },
+		);
+		void ctx.switchToHttp;
+
+		expect(JSON.parse(JSON.stringify({ ctx }))).toEqual({
+			ctx: {
+				user: { id: 1, roles: [] },
+				switchToHttp: '[mock ctx.switchToHttp]',
+			},
+		});
+	});
+
+	it('serializes nested mocks', () => {
+		const ctx = createMock<ExecutionContext>({}, { name: 'ctx' });
+		ctx.user.id = 4;
+
+		expect(JSON.stringify(ctx.user)).toBe('{"id":4}');
+	});
+
+	it('keeps stubbed toJSON methods', () => {
+		const ctx = createMock<ExecutionContext & { toJSON: () => string }>({
+			toJSON: () => 'custom',
+		});
+
+		expect(JSON.stringify(ctx)).toBe('"custom"');
+		expect(ctx.toJSON).toHaveBeenCalledOnce();
+	});
+
+	it('works in strict mode', () => {
+		const ctx = createMock<ExecutionContext>(
+			{ user: { id: 1, roles: [] } },
+			{ strict: 'access' },
+		);
+
+		expect(JSON.stringify(ctx)).toBe('{"user":{"id":1,"roles":[]}}');
+	});
+
+	it('makes snapshots readable', () => {
+		const ctx = createMock<ExecutionContext>(
+			{ getType: vi.fn() },
+			{ name: 'ctx' },
+		);
+		ctx.user.roles = ['admin'];
+
+		expect(ctx).toMatchInlineSnapshot(`
+			{
+			  "getType": "[Function ctx.getType]",
+			  "user": {
+			    "roles": [
+			      "admin",
+			    ],
+			  },
+			}
+		`);
+	});
+});
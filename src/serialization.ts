@@ -0,0 +1,184 @@
+import { expect, vi } from 'vitest';
+import { mockApiKeys } from './inspect';
+import { getMockState, type MockState } from './state';
+
+export type ToPlainObjectOptions = {
+	/** How many levels of nested objects to materialize (default: Infinity) */
+	depth?: number;
+};
+
+/**
+ * Reads the members a mock has so far without reading through its proxy: own
+ * enumerable properties of its target (user-provided values), then generated and
+ * assigned members. Call results and symbol keys are left out, as in JSON.
+ */
+const membersOf = (state: MockState, proxy: object): [string, unknown][] => {
+	const members = new Map<string, unknown>();
+
+	for (const key of Object.keys(state.target)) {
+		if (state.callable && mockApiKeys.has(key)) {
+			continue;
+		}
+
+		const descriptor = Object.getOwnPropertyDescriptor(state.target, key);
+		const getter = descriptor?.get;
+
+		if (vi.isMockFunction(getter)) {
+			// Mocked accessors are read without recording a call
+			members.set(key, getter.getMockImplementation()?.call(proxy));
+		} else {
+			members.set(key, getter ? getter.call(proxy) : descriptor?.value);
+		}
+	}
+
+	for (const [key, value] of state.cache ?? []) {
+		if (typeof key === 'string' && key !== '__apply') {
+			members.set(key, value);
+		}
+	}
+
+	// Functions not wrapped yet are named like they will be once read
+	return [...members].map(([key, value]) => [
+		key,
+		typeof value === 'function' && !getMockState(value)
+			? `[Function ${state.name}.${key}]`
+			: value,
+	]);
+};
+
+const isPlainObject = (value: object) => {
+	const prototype = Object.getPrototypeOf(value);
+
+	return prototype === Object.prototype || prototype === null;
+};
+
+const materialize = (
+	value: unknown,
+	depth: number,
+	ancestors: Set<unknown>,
+): unknown => {
+	const state = getMockState(value);
+
+	if (ancestors.has(value)) {
+		return `[Circular ${state?.name ?? 'Object'}]`;
+	}
+
+	if (state) {
+		const members = membersOf(state, value as object);
+
+		if (members.length > 0) {
+			return depth > 0
+				? materializeEntries(members, value, depth, ancestors)
+				: `[mock ${state.name}]`;
+		}
+
+		// Auto-generated members may turn out to be functions or objects, so only
+		// calls tell them apart
+		return state.fn && (!state.autoGenerated || state.fn.mock.calls.length > 0)
+			? `[Function ${state.name}]`
+			: `[mock ${state.name}]`;
+	}
+
+	if (typeof value === 'function') {
+		return `[Function ${value.name || 'anonymous'}]`;
+	}
+
+	if (Array.isArray(value)) {
+		if (depth <= 0) {
+			return '[Array]';
+		}
+
+		ancestors.add(value);
+		const items = value.map((item) => materialize(item, depth - 1, ancestors));
+		ancestors.delete(value);
+
+		return items;
+	}
+
+	if (typeof value === 'object' && value !== null && isPlainObject(value)) {
+		return depth > 0
+			? materializeEntries(Object.entries(value), value, depth, ancestors)
+			: '[Object]';
+	}
+
+	// Primitives, and instances such as dates, which serialize themselves
+	return value;
+};
+
+const materializeEntries = (
+	entries: [string, unknown][],
+	owner: unknown,
+	depth: number,
+	ancestors: Set<unknown>,
+): Record<string, unknown> => {
+	ancestors.add(owner);
+
+	const result = Object.fromEntries(
+		entries.map(([key, value]) => [
+			key,
+			materialize(value, depth - 1, ancestors),
+		]),
+	);
+
+	ancestors.delete(owner);
+
+	return result;
+};
+
+/**
+ * Materializes the members a mock tree has so far into a plain object, for
+ * `toMatchSnapshot` or `toEqual`. User-provided and assigned values are copied, nested
+ * mocks with members become nested objects, and other members become placeholders:
+ * `'[Function name]'` for functions and `'[mock name]'` for auto-generated members
+ * nothing was stubbed on. Values are read without going through the mock's proxies, so
+ * materializing records no calls or property accesses.
+ *
+ * `JSON.stringify` serializes mocks this way too, unless `toJSON` was stubbed.
+ *
+ * @param mock - A mock created by `createMock`, or any mock inside one
+ * @param options - Optional configuration (depth)
+ * @returns A plain object, with no functions or proxies in it
+ *
+ * @example
+ * ```typescript
+ * const ctx = createMock<ExecutionContext>({ getType: () => 'http' }, { name: 'ctx' });
+ * ctx.user.id = 1;
+ * ctx.switchToHttp;
+ *
+ * toPlainObject(ctx);
+ * // { getType: '[Function ctx.getType]', user: { id: 1 }, switchToHttp: '[mock ctx.switchToHttp]' }
+ * ```
+ */
+export const toPlainObject = (
+	mock: unknown,
+	{ depth = Number.POSITIVE_INFINITY }: ToPlainObjectOptions = {},
+): Record<string, unknown> => {
+	const state = getMockState(mock);
+
+	if (!state) {
+		throw new TypeError(
+			`toPlainObject expects a mock created by createMock, received ${typeof mock}`,
+		);
+	}
+
+	return materializeEntries(
+		depth > 0 ? membersOf(state, mock as object) : [],
+		mock,
+		depth,
+		new Set(),
+	);
+};
+
+// Snapshots print mocks as their materialized tree. Serializers are tried before
+// pretty-format's own plugins, whose probes would otherwise generate members
+expect.addSnapshotSerializer({
+	test: (value) => getMockState(value) !== undefined,
+	serialize: (value, config, indentation, depth, refs, printer) =>
+		printer(
+			materialize(value, Number.POSITIVE_INFINITY, new Set()),
+			config,
+			indentation,
+			depth,
+			refs,
+		),
+});
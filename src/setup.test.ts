@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { expectCall, verifyExpectations } from './expectations';
+import { getInteractions } from './journal';
+import { createMock } from './mocks';
+import { applyMockLifecycle } from './registry';
+import { configureMockRegistry } from './setup';
+import { getStrictViolations } from './strict';
+
+interface Service {
+	load: (id: number) => string;
+	client: { fetch: () => string };
+}
+
+describe('vitest-create-mock/setup', () => {
+	const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+	const shared = createMock<Service>({}, { name: 'shared' });
+	shared.load.mockReturnValue('stub');
+
+	let previous: Service | undefined;
+
+	it('should warn about mocks created outside of tests', () => {
+		expect(warn).toHaveBeenCalledExactlyOnceWith(
+			'vitest-create-mock: shared was created outside of a test, so its calls and stubs are shared across tests. Create it in the test or a beforeEach hook instead',
+		);
+		warn.mockRestore();
+
+		shared.load(1);
+		shared.client.fetch();
+	});
+
+	it('should clear shared mocks after each test, keeping stubs', () => {
+		expect(shared.load).not.toHaveBeenCalled();
+		expect(shared.client.fetch).not.toHaveBeenCalled();
+		expect(shared.load(2)).toBe('stub');
+	});
+
+	it('should clear mocks created by a test after it', () => {
+		previous = createMock<Service>();
+		previous.client.fetch();
+	});
+
+	it('should forget their interactions', () => {
+		expect(previous?.client.fetch).not.toHaveBeenCalled();
+		expect(getInteractions(previous)).toEqual([]);
+
+		configureMockRegistry({ afterEach: 'reset' });
+	});
+
+	it('should apply the configured lifecycle', () => {
+		expect(shared.load(3)).not.toBe('stub');
+
+		configureMockRegistry({ afterEach: false });
+		shared.load(4);
+	});
+
+	it('should leave mocks alone when disabled', () => {
+		expect(shared.load).toHaveBeenCalledWith(4);
+	});
+
+	it('should verify expectations after each test', () => {
+		createMock<Service>({}, { name: 'repo', expect: { load: { times: 1 } } });
+
+		expect(() => applyMockLifecycle()).toThrow(
+			'repo.load: expected 1 call, received 0',
+		);
+	});
+
+	it('should forget expectations declared by a test after it', () => {
+		expectCall(shared.load).once().with(4);
+	});
+
+	it('should not verify them in later tests', () => {
+		shared.load(4);
+
+		expect(() => verifyExpectations(shared)).not.toThrow();
+	});
+
+	it("should warn about calls refused by strict: 'warn' mocks", () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const service = createMock<Service>(
+			{},
+			{ name: 'service', strict: 'warn' },
+		);
+
+		service.load(5);
+		applyMockLifecycle();
+		applyMockLifecycle();
+
+		expect(warn).toHaveBeenCalledExactlyOnceWith(
+			expect.stringMatching(
+				/^vitest-create-mock: 1 call to unstubbed functions with strict: 'warn' in ".*should warn about calls refused.*":\nMethod service\.load was called without being explicitly stubbed\n {2}Received: \(5\)/,
+			),
+		);
+		expect(getStrictViolations()).toEqual([]);
+		warn.mockRestore();
+	});
+});
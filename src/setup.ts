@@ -0,0 +1,30 @@
+/**
+ * Setup entry for Vitest's `setupFiles`: registers every mock created by `createMock`,
+ * verifies their expectations and clears them after each test, including nested
+ * auto-mocks and cached call results that `vi.clearAllMocks()` misses. Mocks created
+ * outside of tests and calls refused by `strict: 'warn'` mocks are reported. Passing
+ * spy assertions mark the calls they pin down as verified, see enableCallVerification.
+ *
+ * @example
+ * ```typescript
+ * // vitest.config.ts
+ * export default defineConfig({
+ *   test: { setupFiles: ['vitest-create-mock/setup'] },
+ * });
+ * ```
+ */
+import { afterEach } from 'vitest';
+import { applyMockLifecycle, enableMockRegistry } from './registry';
+import { enableCallVerification } from './verification';
+
+export {
+	configureMockRegistry,
+	type MockRegistryOptions,
+} from './registry';
+
+enableMockRegistry();
+enableCallVerification();
+
+afterEach(() => {
+	applyMockLifecycle();
+});
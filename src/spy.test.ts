@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { getInteractions } from './journal';
+import { resetMock, restoreMock } from './lifecycle';
+import { createSpyMock } from './spy';
+import { verifyNoMoreInteractions } from './verification';
+
+class Counter {
+	#count = 0;
+	settings = { step: 1, describe: () => 'step of 1' };
+	readonly tags = ['a', 'b'];
+
+	get count() {
+		return this.#count;
+	}
+
+	increment() {
+		this.#count += this.settings.step;
+		return this.#count;
+	}
+
+	incrementTwice() {
+		this.increment();
+		return this.increment();
+	}
+
+	add(step: number) {
+		this.#count += step;
+		return this;
+	}
+}
+
+describe('createSpyMock', () => {
+	it('should call through to the real implementation', () => {
+		const counter = createSpyMock(new Counter());
+
+		expect(counter.increment()).toBe(1);
+		expect(counter.increment()).toBe(2);
+		expect(counter.increment).toHaveBeenCalledTimes(2);
+	});
+
+	it('should run methods and getters against the real instance', () => {
+		const real = new Counter();
+		const counter = createSpyMock(real);
+
+		counter.incrementTwice();
+
+		expect(counter.count).toBe(2);
+		expect(real.count).toBe(2);
+	});
+
+	it('should return the spy from fluent methods so chained calls are tracked', () => {
+		const real = new Counter();
+		const counter = createSpyMock(real);
+
+		expect(counter.add(2)).toBe(counter);
+		counter.add(1).add(2);
+
+		expect(counter.add).toHaveBeenCalledTimes(3);
+		expect(counter.add).toHaveBeenLastCalledWith(2);
+		expect(real.count).toBe(5);
+	});
+
+	it('should allow overriding individual methods', () => {
+		const counter = createSpyMock(new Counter());
+
+		counter.increment.mockReturnValue(42);
+
+		expect(counter.increment()).toBe(42);
+		expect(counter.count).toBe(0);
+	});
+
+	it('should call through again after reset and restore', () => {
+		const counter = createSpyMock(new Counter());
+
+		counter.increment.mockReturnValue(42);
+		resetMock(counter);
+		expect(counter.increment()).toBe(1);
+
+		counter.increment.mockReturnValue(42);
+		restoreMock(counter);
+		expect(counter.increment()).toBe(2);
+	});
+
+	it('should spy on nested objects', () => {
+		const counter = createSpyMock(new Counter());
+
+		expect(counter.settings.describe()).toBe('step of 1');
+		expect(counter.settings.describe).toHaveBeenCalledOnce();
+		expect(counter.settings.step).toBe(1);
+	});
+
+	it('should spy on plain objects', () => {
+		const api = createSpyMock(
+			{
+				prefix: 'Hello',
+				greet(name: string) {
+					return `${this.prefix}, ${name}`;
+				},
+			},
+			{ name: 'api' },
+		);
+
+		expect(api.greet('Ada')).toBe('Hello, Ada');
+		expect(api.greet).toHaveBeenCalledWith('Ada');
+
+		api.prefix = 'Hi';
+		expect(api.greet('Ada')).toBe('Hi, Ada');
+	});
+
+	it('should support argument-matched stubbing', () => {
+		const api = createSpyMock({ double: (n: number) => n * 2 });
+
+		api.double.calledWith(2).mockReturnValue(5);
+
+		expect(api.double(2)).toBe(5);
+		expect(api.double(3)).toBe(6);
+	});
+
+	it('should keep the identity and built-ins of the real instance', () => {
+		const counter = createSpyMock(new Counter());
+
+		expect(counter).toBeInstanceOf(Counter);
+		expect(counter.constructor).toBe(Counter);
+		expect(counter.tags).toEqual(['a', 'b']);
+		expect(counter.tags.map((tag) => tag.toUpperCase())).toEqual(['A', 'B']);
+	});
+
+	it('should rewrap methods replaced on the real instance', () => {
+		const api = createSpyMock({ ping: () => 'pong' });
+
+		api.ping();
+		Object.assign(api, { ping: () => 'PONG' });
+
+		expect(api.ping()).toBe('PONG');
+		expect(api.ping).toHaveBeenCalledOnce();
+	});
+
+	it('should record calls to the journal under the class name', () => {
+		const counter = createSpyMock(new Counter());
+
+		counter.increment();
+
+		expect(getInteractions(counter).map(({ name }) => name)).toEqual([
+			'Counter.increment',
+		]);
+		expect(() => verifyNoMoreInteractions(counter)).toThrow(
+			'Counter.increment()',
+		);
+	});
+});
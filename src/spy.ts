@@ -0,0 +1,193 @@
+import { vi } from 'vitest';
+import { prefixMockName } from './config';
+import {
+	createContext,
+	createFunctionProxy,
+	type DeepMocked,
+	type MockOptions,
+} from './mocks';
+import { registerMock } from './registry';
+import {
+	getMockState,
+	type MockContext,
+	type MockState,
+	registerMockState,
+} from './state';
+
+/**
+ * Options for createSpyMock. Spies always call through, so there is no strict mode,
+ * and their properties are read live from the real object.
+ */
+export type SpyMockOptions = Omit<
+	MockOptions,
+	| 'strict'
+	| 'callable'
+	| 'trackProperties'
+	| 'autoReturn'
+	| 'ignoredProps'
+	| 'expect'
+>;
+
+/**
+ * Plain objects and class instances are spied on recursively. Built-ins such as
+ * arrays, maps, dates or promises are returned as-is: their methods rely on internal
+ * slots that a proxy does not have.
+ */
+export const isSpyable = (value: unknown): value is object =>
+	typeof value === 'object' &&
+	value !== null &&
+	Object.prototype.toString.call(value) === '[object Object]';
+
+/**
+ * Proxies must report non-configurable, read-only properties (e.g. of frozen objects)
+ * unchanged, so those cannot be wrapped.
+ */
+const isFixed = (obj: object, prop: PropertyKey) => {
+	const descriptor = Object.getOwnPropertyDescriptor(obj, prop);
+	return descriptor?.configurable === false && descriptor.writable === false;
+};
+
+/**
+ * Runs the real call of a spied method, e.g. to observe or replace its result.
+ *
+ * @param name - Dotted name of the method
+ * @param args - Arguments of the call
+ * @param call - Performs the real call
+ */
+export type SpyInterceptor = (
+	name: string,
+	args: unknown[],
+	call: () => unknown,
+) => unknown;
+
+/**
+ * Creates a Proxy over a real object that reads every property live from it, wrapping
+ * methods in call-through vi.fn() mocks and nested objects in further spies.
+ *
+ * @param name - Debug name for the spy (used in error messages)
+ * @param context - Settings shared with the rest of the spy tree
+ * @param instance - The real object to spy on
+ * @param intercept - Optional hook around every real call in the spy tree
+ */
+export const createSpyProxy = <T extends object>(
+	name: string,
+	context: MockContext,
+	instance: T,
+	intercept?: SpyInterceptor,
+): T => {
+	// biome-ignore lint/suspicious/noExplicitAny: looseness needed for mocking
+	const cache = new Map<PropertyKey, any>();
+	// Real value each cached wrapper was created for, to notice when it is replaced
+	const sources = new Map<PropertyKey, unknown>();
+
+	const accessed = new Set<PropertyKey>();
+
+	const state: MockState = {
+		name,
+		context,
+		cache,
+		generated: new Set(),
+		accessed,
+		target: instance,
+		base: instance,
+	};
+
+	const wrap = (prop: PropertyKey, value: unknown, proxy: object) => {
+		const propName = `${name}.${prop.toString()}`;
+
+		if (typeof value === 'function') {
+			// Methods run against the real instance so private fields keep working, and
+			// fluent methods returning it hand back the spy so chained calls are tracked
+			return createFunctionProxy(
+				propName,
+				context,
+				function (this: unknown, ...args: unknown[]) {
+					const call = () =>
+						Reflect.apply(value, this === proxy ? instance : this, args);
+					const result = intercept ? intercept(propName, args, call) : call();
+
+					return result === instance ? proxy : result;
+				},
+			);
+		}
+
+		return createSpyProxy(propName, context, value as object, intercept);
+	};
+
+	const proxy: T = new Proxy(instance, {
+		get: (obj, prop) => {
+			accessed.add(prop);
+
+			// Getters also see the real instance as `this`
+			const value = Reflect.get(obj, prop, obj);
+
+			if (
+				prop === 'constructor' ||
+				(typeof value !== 'function' && !isSpyable(value)) ||
+				vi.isMockFunction(value) ||
+				getMockState(value) ||
+				isFixed(obj, prop)
+			) {
+				return value;
+			}
+
+			if (!cache.has(prop) || sources.get(prop) !== value) {
+				cache.set(prop, wrap(prop, value, proxy));
+				sources.set(prop, value);
+			}
+
+			return cache.get(prop);
+		},
+		set: (obj, prop, newValue) => {
+			cache.delete(prop);
+			sources.delete(prop);
+
+			return Reflect.set(obj, prop, newValue, obj);
+		},
+	});
+
+	registerMockState(proxy, state);
+
+	return proxy;
+};
+
+/**
+ * Creates a spy over a real object: every method, own or inherited and in nested
+ * objects too, is wrapped in a vi.fn() that calls through to the real implementation.
+ * Calls are tracked like those of `createMock` mocks, and any method can still be
+ * stubbed through the Mock API.
+ *
+ * Properties and getters are read live from the real object, and methods run with the
+ * real object as `this`, so internal state and private fields behave as usual.
+ * `resetMock` and `restoreMock` make stubbed methods call through again.
+ *
+ * @param instance - The real object to spy on
+ * @param options - Optional configuration (name, journal)
+ * @returns The spy, typed like a mock of the instance
+ *
+ * @example
+ * ```typescript
+ * const cart = createSpyMock(new Cart());
+ *
+ * cart.add({ sku: 'apple', price: 2 });
+ * expect(cart.add).toHaveBeenCalledOnce();
+ * expect(cart.total).toBe(2);
+ *
+ * cart.checkout.mockReturnValue({ id: 'order-1' });
+ * ```
+ */
+export const createSpyMock = <T extends object>(
+	instance: T,
+	options: SpyMockOptions = {},
+): DeepMocked<T> => {
+	const className = Object.getPrototypeOf(instance)?.constructor?.name;
+	const {
+		name: baseName = className && className !== 'Object' ? className : 'mock',
+		...rest
+	} = options;
+	const name = prefixMockName(baseName);
+
+	return registerMock(
+		createSpyProxy(name, createContext({ ...rest, name }), instance),
+	) as DeepMocked<T>;
+};
@@ -0,0 +1,159 @@
+import { type Mock, vi } from 'vitest';
+import type { InteractionJournal } from './journal';
+import type { Constructor, PropertyTracking, Strictness } from './mocks';
+
+/**
+ * Settings shared by every proxy of one mock tree.
+ */
+export type MockContext = {
+	/** Debug name of the root mock */
+	name: string;
+	/** How unstubbed members are treated */
+	strict: Strictness;
+	/** Journal that calls are recorded to */
+	journal: InteractionJournal;
+	/** Whether reads and writes of data properties are recorded */
+	trackProperties: PropertyTracking;
+	/** What calling an unstubbed function returns */
+	autoReturn: 'mock' | 'undefined';
+	/** Properties that always read as undefined */
+	ignoredProps: Set<PropertyKey>;
+};
+
+/**
+ * A single read or write of a data property, as recorded by `trackProperties`.
+ */
+export type PropertyAccess = {
+	type: 'get' | 'set';
+	/** Dotted path of the property, e.g. `mock.session.userId` */
+	path: string;
+	/** Value that was read or written */
+	value: unknown;
+	/** Position of the access across all journals and property histories */
+	sequence: number;
+};
+
+/**
+ * Calls a mocked function is expected to receive, see verifyExpectations.
+ */
+export type CallExpectation = {
+	/** Exact number of matching calls (default: at least one) */
+	times?: number;
+	/** Arguments the calls must match, may be asymmetric matchers (default: any) */
+	with?: unknown[];
+	/** Declared through `MockOptions.expect`, so it outlives the test */
+	upfront: boolean;
+};
+
+/**
+ * Internal bookkeeping for a single proxy created by `createProxy` or `createSpyMock`.
+ * Kept out of the proxy itself so that none of it leaks through property access.
+ */
+export type MockState = {
+	/** Debug name (dotted path) of the proxy */
+	name: string;
+	/** Settings shared with the rest of the tree */
+	context: MockContext;
+	/** If true, no further children may be auto-generated */
+	sealed?: boolean;
+	/** Whether the proxy was generated by the library rather than created by the user */
+	autoGenerated?: boolean;
+	/**
+	 * Memoized children, keyed by property (and `__apply` for call results), allocated
+	 * on the first child
+	 */
+	// biome-ignore lint/suspicious/noExplicitAny: looseness needed for mocking
+	cache?: Map<PropertyKey, any>;
+	/** Keys of `cache` whose values were auto-generated rather than user-provided */
+	generated?: Set<PropertyKey>;
+	/** Properties read through the proxy, see toHaveBeenAccessed */
+	accessed?: Set<PropertyKey>;
+	/** Reads and writes of data properties, see getPropertyHistory */
+	history?: PropertyAccess[];
+	/** Expected calls of a mocked function, see verifyExpectations */
+	expectations?: CallExpectation[];
+	/** Object the proxy wraps: the user-provided base or the underlying vi.fn() */
+	target: object;
+	/**
+	 * Own property descriptors of `target` at creation time, used by restoreMock.
+	 * Absent for spies, whose target is a real object that restoreMock leaves alone.
+	 */
+	snapshot?: PropertyDescriptorMap;
+	/** User-provided base object, if any */
+	base?: object;
+	/** Members declared by the mocked class, if the mock was created from one */
+	members?: Set<PropertyKey>;
+	/** Whether the proxy is a mocked function, whose vi.fn() may not exist yet */
+	callable?: boolean;
+	/**
+	 * Underlying vi.fn() of a mocked function. Auto-generated functions only get one
+	 * when called, stubbed or asserted on, see getMockFn
+	 */
+	fn?: Mock;
+	/** Deep mocks returned by `new` on the function, in creation order */
+	instances?: object[];
+	/** Class whose mocks `new` returns, for the class exports of mocked modules */
+	instanceClass?: Constructor;
+	/** Deep mocks returned for specific arguments, as stubbed by `when`, keyed by call */
+	stubbedResults?: Map<string, object>;
+};
+
+const states = new WeakMap<object, MockState>();
+
+export const registerMockState = (proxy: object, state: MockState) => {
+	states.set(proxy, state);
+};
+
+export const getMockState = (value: unknown): MockState | undefined => {
+	if (
+		value === null ||
+		(typeof value !== 'object' && typeof value !== 'function')
+	) {
+		return undefined;
+	}
+
+	return states.get(value);
+};
+
+/**
+ * Returns the underlying vi.fn() of a mocked function, creating it if the function was
+ * neither called, stubbed nor asserted on yet. Undefined for mocks that are not
+ * functions.
+ */
+export const getMockFn = (state: MockState): Mock | undefined => {
+	if (state.callable && !state.fn) {
+		state.fn = vi.fn();
+	}
+
+	return state.fn;
+};
+
+/**
+ * Visits every proxy reachable from `root` through cached children, constructed
+ * instances and stubbed call results, children first.
+ * Each proxy is visited once, so composed or cyclic mock trees are safe to walk, and
+ * `visit` may prune the cache of the state it receives.
+ */
+export const walkMockStates = (
+	root: unknown,
+	visit: (state: MockState) => void,
+	seen = new Set<MockState>(),
+) => {
+	const state = getMockState(root);
+
+	if (!state || seen.has(state)) {
+		return;
+	}
+
+	seen.add(state);
+
+	for (const child of [
+		...(state.cache?.values() ?? []),
+		...(state.instances ?? []),
+		...(state.stubbedResults?.values() ?? []),
+	]) {
+		walkMockStates(child, visit, seen);
+	}
+
+	visit(state);
+};
@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createMock } from './mocks';
+import { clearStrictViolations, getStrictViolations } from './strict';
+
+interface UserRepository {
+	findById: (id: number) => Promise<{ id: number }>;
+	findByEmail: (email: string) => Promise<{ id: number }>;
+	save: (user: { id: number }) => Promise<void>;
+	audit: { log: (message: string) => void };
+}
+
+const callUnstubbed = (repo: UserRepository) =>
+	repo.findByEmail('ada@example.com');
+
+describe('strict mode diagnostics', () => {
+	it('keeps the summary on the first line', () => {
+		const repo = createMock<UserRepository>({}, { name: 'repo', strict: true });
+
+		expect(() => repo.findById(1)).toThrow(
+			'Method repo.findById was called without being explicitly stubbed',
+		);
+	});
+
+	it('includes the arguments and the call site', () => {
+		const repo = createMock<UserRepository>({}, { name: 'repo', strict: true });
+
+		expect(() => callUnstubbed(repo)).toThrow(
+			/\n {2}Received: \("ada@example\.com"\)\n {2}Called at: callUnstubbed \(.*strict\.test\.ts:\d+:\d+\)/,
+		);
+	});
+
+	it('starts the stack at the call', () => {
+		const repo = createMock<UserRepository>({}, { strict: true });
+
+		try {
+			callUnstubbed(repo);
+		} catch (error) {
+			const frames = (error as Error).stack?.split('\n    at ') ?? [];
+			expect(frames[1]).toMatch(/^callUnstubbed /);
+		}
+
+		expect.assertions(1);
+	});
+
+	it('lists the stubbed siblings and suggests close names', () => {
+		const repo = createMock<UserRepository>(
+			{ findById: async (id: number) => ({ id }), save: async () => {} },
+			{ name: 'repo', strict: true },
+		);
+
+		const renamed = repo as unknown as { findByID: (id: number) => unknown };
+
+		expect(() => repo.findByEmail('ada@example.com')).toThrow(
+			'  Stubbed on repo: findById, save',
+		);
+		expect(() => repo.findByEmail('ada@example.com')).not.toThrow(
+			'Did you mean',
+		);
+		expect(() => renamed.findByID(1)).toThrow(
+			'  Stubbed on repo: findById, save\n  Did you mean repo.findById?',
+		);
+	});
+
+	it('counts members stubbed after creation', () => {
+		const repo = createMock<UserRepository>({}, { name: 'repo', strict: true });
+		repo.findById.mockResolvedValue({ id: 1 });
+		repo.save.calledWith({ id: 1 }).mockResolvedValue(undefined);
+
+		expect(() => repo.audit.log('saved')).toThrow(
+			'  Stubbed on repo.audit: none',
+		);
+		expect(() => repo.findByEmail('ada@example.com')).toThrow(
+			/\n {2}Stubbed on repo: findById, save$/,
+		);
+	});
+
+	it('applies to constructors', () => {
+		const factory = createMock<{ Client: new (url: string) => object }>(
+			{},
+			{ name: 'factory', strict: true },
+		);
+
+		expect(() => new factory.Client('https://example.com')).toThrow(
+			'Constructor factory.Client was called without being explicitly stubbed\n  Received: ("https://example.com")',
+		);
+	});
+});
+
+describe("strict: 'warn'", () => {
+	afterEach(() => {
+		clearStrictViolations();
+	});
+
+	it('records violations instead of throwing', async () => {
+		const repo = createMock<UserRepository>(
+			{ findById: async (id: number) => ({ id }) },
+			{ name: 'repo', strict: 'warn' },
+		);
+
+		const renamed = repo as unknown as { findByID: (id: number) => unknown };
+
+		const user = await renamed.findByID(1);
+		repo.audit.log('registered');
+
+		expect(user).toBeDefined();
+		expect(getStrictViolations()).toEqual([
+			{
+				name: 'repo.findByID',
+				args: [1],
+				message: expect.stringContaining('Did you mean repo.findById?'),
+				callSite: expect.stringContaining('strict.test.ts'),
+				test: "strict: 'warn' > records violations instead of throwing",
+			},
+			expect.objectContaining({ name: 'repo.audit.log', args: ['registered'] }),
+		]);
+	});
+
+	it('carries on as a non-strict mock', () => {
+		const repo = createMock<UserRepository>({}, { strict: 'warn' });
+
+		expect(repo.audit.log('a')).toBe(repo.audit.log('b'));
+		expect(repo.audit.log).toHaveBeenCalledTimes(2);
+	});
+
+	it('auto-mocks members a class does not declare', () => {
+		class Repository {
+			findById(id: number) {
+				return { id };
+			}
+		}
+		const repo = createMock(Repository, {}, { name: 'repo', strict: 'warn' });
+		const renamed = repo as unknown as { findByID: (id: number) => unknown };
+
+		expect(renamed.findByID(1)).toBeDefined();
+		expect(getStrictViolations()).toEqual([
+			expect.objectContaining({ name: 'repo.findByID', args: [1] }),
+		]);
+	});
+
+	it('does not record stubbed calls', () => {
+		const repo = createMock<UserRepository>({}, { strict: 'warn' });
+		repo.audit.log.mockReturnValue(undefined);
+
+		repo.audit.log('a');
+
+		expect(getStrictViolations()).toEqual([]);
+	});
+
+	it('filters violations by mock tree', () => {
+		const repo = createMock<UserRepository>({}, { strict: 'warn' });
+		const other = createMock<UserRepository>({}, { strict: 'warn' });
+
+		repo.audit.log('a');
+		other.audit.log('b');
+
+		expect(getStrictViolations(repo.audit)).toEqual([
+			expect.objectContaining({ args: ['a'] }),
+		]);
+		expect(getStrictViolations()).toHaveLength(2);
+	});
+
+	it('does not keep mocks alive', async () => {
+		const gc = (globalThis as { gc?: () => void }).gc;
+		const callUnstubbedOnce = () => {
+			const repo = createMock<UserRepository>({}, { strict: 'warn' });
+			repo.audit.log('a');
+			// Vitest keeps the receiver and result of calls until the vi.fn() is cleared
+			repo.audit.log.mockClear();
+			return new WeakRef(repo);
+		};
+		const ref = callUnstubbedOnce();
+
+		expect(getStrictViolations()).toHaveLength(1);
+
+		// WeakRef targets stay alive until the current job ends
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		gc?.();
+
+		expect(ref.deref() === undefined).toBe(true);
+		expect(getStrictViolations()).toEqual([]);
+	});
+
+	it('refuses values that are not mocks', () => {
+		expect(() => getStrictViolations({})).toThrow(
+			'getStrictViolations expects a mock created by createMock, received object',
+		);
+	});
+});
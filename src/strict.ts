@@ -0,0 +1,245 @@
+import { expect } from 'vitest';
+import { hasArgumentStubs } from './called-with';
+import { formatCall } from './format';
+import { mockApiKeys } from './inspect';
+import { getMockState, type MockContext, type MockState } from './state';
+
+/**
+ * A call strict mode refused, recorded instead of thrown with `strict: 'warn'`.
+ */
+export type StrictViolation = {
+	/** Dotted name of the function, e.g. `repo.findByEmail` */
+	name: string;
+	/** Arguments the function received */
+	args: unknown[];
+	/** The error strict mode would have thrown, with its diagnostics */
+	message: string;
+	/** Stack frame of the call, e.g. `register (src/users.ts:12:5)` */
+	callSite?: string;
+	/** Full name of the test the call happened in, if any */
+	test?: string;
+};
+
+type RecordedViolation = StrictViolation & { order: number };
+
+/**
+ * Violations per mock context, so that they are garbage-collected along with the
+ * mocks that recorded them.
+ */
+let violations = new WeakMap<MockContext, RecordedViolation[]>();
+/** Contexts that recorded violations, for reading them all */
+let recordedContexts = new Set<WeakRef<MockContext>>();
+let recorded = 0;
+
+const releaseContext = new FinalizationRegistry<{
+	contexts: Set<WeakRef<MockContext>>;
+	ref: WeakRef<MockContext>;
+}>(({ contexts, ref }) => {
+	contexts.delete(ref);
+});
+
+/**
+ * Levenshtein distance between two member names, for "did you mean" suggestions.
+ */
+const distance = (a: string, b: string): number => {
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+
+		previous = current;
+	}
+
+	return previous[b.length];
+};
+
+/**
+ * Whether a member would answer a call: a provided value or function, or a mocked
+ * function given an implementation or argument stubs.
+ */
+const isStubbed = (value: unknown): boolean => {
+	const state = getMockState(value);
+
+	if (!state) {
+		return value !== undefined;
+	}
+
+	return (
+		!state.autoGenerated ||
+		(state.fn !== undefined &&
+			(state.fn.getMockImplementation() !== undefined ||
+				hasArgumentStubs(state.fn)))
+	);
+};
+
+/**
+ * Lists the stubbed members of a mock by name, without reading through its proxy.
+ */
+const stubbedMembersOf = (parent: MockState): string[] => {
+	const keys = new Set<string>();
+
+	for (const key of [
+		...Reflect.ownKeys(parent.target),
+		...(parent.cache?.keys() ?? []),
+	]) {
+		if (
+			typeof key === 'string' &&
+			key !== '__apply' &&
+			!(parent.callable && mockApiKeys.has(key))
+		) {
+			keys.add(key);
+		}
+	}
+
+	return [...keys].filter((key) =>
+		isStubbed(
+			parent.cache?.has(key)
+				? parent.cache.get(key)
+				: Object.getOwnPropertyDescriptor(parent.target, key)?.value,
+		),
+	);
+};
+
+/**
+ * Describes the stubbed siblings of a member, with the closest names first when they
+ * look like a typo of it.
+ */
+const describeSiblings = (name: string, parent: MockState): string[] => {
+	if (!name.startsWith(`${parent.name}.`)) {
+		return [];
+	}
+
+	const key = name.slice(parent.name.length + 1);
+	const stubbed = stubbedMembersOf(parent).filter((member) => member !== key);
+	const threshold = Math.max(1, Math.floor(key.length / 3));
+	const suggestions = stubbed
+		.map((member) => ({
+			member,
+			distance: distance(member.toLowerCase(), key.toLowerCase()),
+		}))
+		.filter((candidate) => candidate.distance <= threshold)
+		.sort((a, b) => a.distance - b.distance)
+		.map(({ member }) => `${parent.name}.${member}`);
+
+	return [
+		`  Stubbed on ${parent.name}: ${stubbed.length > 0 ? stubbed.join(', ') : 'none'}`,
+		...(suggestions.length > 0
+			? [`  Did you mean ${suggestions.join(' or ')}?`]
+			: []),
+	];
+};
+
+/**
+ * Reports a call strict mode refuses, with the arguments, the call site and the
+ * stubbed siblings of the function: thrown, or recorded with `strict: 'warn'`.
+ *
+ * @param summary - First line of the error, e.g. `Method mock.x was called without being explicitly stubbed`
+ * @param state - State of the mocked function that was called
+ * @param thisArg - Receiver of the call, the parent for method calls
+ * @param args - Arguments of the call
+ * @param trap - Proxy trap that was called, left out of the stack along with the library
+ */
+export const reportStrictViolation = (
+	summary: string,
+	state: MockState,
+	thisArg: unknown,
+	args: unknown[],
+	trap: (...args: never[]) => unknown,
+): void => {
+	const holder: { stack?: string } = {};
+	Error.captureStackTrace(holder, trap);
+
+	const callSite = holder.stack
+		?.split('\n')
+		.find((line) => line.trimStart().startsWith('at '))
+		?.trim()
+		.slice('at '.length);
+	const parent = getMockState(thisArg);
+	const message = [
+		summary,
+		`  Received: ${formatCall('', args)}`,
+		...(callSite ? [`  Called at: ${callSite}`] : []),
+		...(parent ? describeSiblings(state.name, parent) : []),
+	].join('\n');
+
+	if (state.context.strict !== 'warn') {
+		const error = new Error(message);
+		Error.captureStackTrace(error, trap);
+		throw error;
+	}
+
+	const { context } = state;
+	let recordedViolations = violations.get(context);
+
+	if (!recordedViolations) {
+		recordedViolations = [];
+		violations.set(context, recordedViolations);
+
+		const ref = new WeakRef(context);
+		recordedContexts.add(ref);
+		releaseContext.register(context, { contexts: recordedContexts, ref });
+	}
+
+	recordedViolations.push({
+		name: state.name,
+		args,
+		message,
+		callSite,
+		test: expect.getState().currentTestName,
+		order: ++recorded,
+	});
+};
+
+/**
+ * Returns the calls that mocks created with `strict: 'warn'` recorded instead of
+ * throwing, oldest first. The setup entry warns about them after each test and
+ * forgets them. They are kept with the mocks, and dropped once those are
+ * garbage-collected.
+ *
+ * @param mock - Optional mock to only return the violations of its tree
+ * @returns The recorded violations
+ *
+ * @example
+ * ```typescript
+ * const repo = createMock<UserRepository>({}, { strict: 'warn' });
+ * await service.register(user);
+ *
+ * expect(getStrictViolations(repo)).toEqual([]);
+ * ```
+ */
+export const getStrictViolations = (mock?: unknown): StrictViolation[] => {
+	const context = mock === undefined ? undefined : getMockState(mock)?.context;
+
+	if (mock !== undefined && !context) {
+		throw new TypeError(
+			`getStrictViolations expects a mock created by createMock, received ${typeof mock}`,
+		);
+	}
+
+	const contexts = context
+		? [context]
+		: [...recordedContexts].map((ref) => ref.deref());
+
+	return contexts
+		.flatMap((recordedContext) =>
+			recordedContext ? (violations.get(recordedContext) ?? []) : [],
+		)
+		.sort((a, b) => a.order - b.order)
+		.map(({ order: _, ...violation }) => violation);
+};
+
+/**
+ * Forgets every recorded strict mode violation.
+ */
+export const clearStrictViolations = (): void => {
+	violations = new WeakMap();
+	recordedContexts = new Set();
+};
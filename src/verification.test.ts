@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { clearInteractions, verifyInOrder } from './journal';
+import { createMock } from './mocks';
+import {
+	enableCallVerification,
+	markVerified,
+	verifyNoMoreInteractions,
+	verifyZeroInteractions,
+} from './verification';
+
+enableCallVerification();
+
+interface User {
+	id: number;
+}
+
+interface UserRepository {
+	save: (user: User) => void;
+	findById: (id: number) => User | undefined;
+	query: () => { where: (clause: string) => User[] };
+}
+
+describe('Verification', () => {
+	afterEach(() => {
+		clearInteractions();
+	});
+
+	describe('verifyNoMoreInteractions', () => {
+		it('should pass when every call was asserted', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+
+			repo.save({ id: 1 });
+			repo.findById(1);
+			repo.findById(2);
+
+			expect(repo.save).toHaveBeenCalledWith({ id: 1 });
+			expect(repo.findById).toHaveBeenNthCalledWith(1, 1);
+			expect(repo.findById).toHaveBeenLastCalledWith(2);
+
+			expect(() => verifyNoMoreInteractions(repo)).not.toThrow();
+		});
+
+		it('should report unverified calls with their full paths', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+
+			repo.save({ id: 1 });
+			repo.findById(2);
+			repo.query().where('id = 1');
+
+			expect(repo.save).toHaveBeenCalledWith({ id: 1 });
+
+			expect(() => verifyNoMoreInteractions(repo)).toThrow(
+				[
+					'Expected no more interactions, but found 3 unverified calls:',
+					'  1. repo.findById(2)',
+					'  2. repo.query()',
+					'  3. repo.query().where("id = 1")',
+				].join('\n'),
+			);
+		});
+
+		it('should only verify calls matching the asserted arguments', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+
+			repo.findById(1);
+			repo.findById(2);
+
+			expect(repo.findById).toHaveBeenCalledWith(1);
+
+			expect(() => verifyNoMoreInteractions(repo)).toThrow(
+				'  1. repo.findById(2)',
+			);
+		});
+
+		it('should verify every call on matching call counts', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+
+			repo.findById(1);
+			repo.findById(2);
+			repo.save({ id: 1 });
+
+			expect(repo.findById).toHaveBeenCalledTimes(2);
+			expect(repo.save).toHaveBeenCalledOnce();
+
+			expect(() => verifyNoMoreInteractions(repo)).not.toThrow();
+		});
+
+		it('should not verify calls through negated or loose assertions', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+
+			repo.findById(1);
+
+			expect(repo.findById).not.toHaveBeenCalledWith(2);
+			expect(repo.findById).toHaveBeenCalled();
+
+			expect(() => verifyNoMoreInteractions(repo)).toThrow(
+				'found 1 unverified call:',
+			);
+		});
+
+		it('should accept calls verified in order or marked explicitly', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+			const audit = createMock<UserRepository>({}, { name: 'audit' });
+
+			repo.save({ id: 1 });
+			audit.save({ id: 1 });
+			audit.findById(1);
+
+			verifyInOrder([repo.save, audit.save]);
+			markVerified(audit.findById);
+
+			expect(() => verifyNoMoreInteractions(repo, audit)).not.toThrow();
+		});
+	});
+
+	describe('verifyZeroInteractions', () => {
+		it('should pass when nothing was called', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+
+			expect(() => verifyZeroInteractions(repo)).not.toThrow();
+		});
+
+		it('should not count members every function inherits as calls', () => {
+			const errors = createMock<{ NotFound: new () => Error }>(
+				{},
+				{ name: 'errors' },
+			);
+
+			expect({} instanceof errors.NotFound).toBe(false);
+			expect(errors.NotFound.toString()).toContain('[native code]');
+
+			expect(() => verifyZeroInteractions(errors)).not.toThrow();
+		});
+
+		it('should record calls made through call and bind as calls', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+
+			repo.findById.call(undefined, 1);
+			repo.findById.bind(undefined, 2)();
+
+			expect(() => verifyZeroInteractions(repo)).toThrow(
+				[
+					'Expected zero interactions, but found 2 calls:',
+					'  1. repo.findById(1)',
+					'  2. repo.findById(2)',
+				].join('\n'),
+			);
+		});
+
+		it('should report every call, verified or not', () => {
+			const repo = createMock<UserRepository>({}, { name: 'repo' });
+
+			repo.save({ id: 1 });
+			expect(repo.save).toHaveBeenCalledWith({ id: 1 });
+
+			expect(() => verifyZeroInteractions(repo)).toThrow(
+				[
+					'Expected zero interactions, but found 1 call:',
+					'  1. repo.save({ id: 1 })',
+				].join('\n'),
+			);
+		});
+	});
+});
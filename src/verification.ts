@@ -0,0 +1,197 @@
+import { chai } from 'vitest';
+import { formatInteractions, plural } from './format';
+import {
+	collectInteractions,
+	getFunctionInteractions,
+	type Interaction,
+} from './journal';
+import { matches } from './matching';
+import { getMockState } from './state';
+
+type MarkAsserted = (
+	received: unknown,
+	matcher: string,
+	args: unknown[],
+) => void;
+
+/**
+ * Vitest spy matchers that mark the calls they assert as verified.
+ * `toHaveBeenCalled` is left out on purpose: it does not pin down any call.
+ */
+const verifyingMatchers = [
+	'toHaveBeenCalledWith',
+	'toBeCalledWith',
+	'toHaveBeenCalledExactlyOnceWith',
+	'toHaveBeenNthCalledWith',
+	'nthCalledWith',
+	'toHaveBeenLastCalledWith',
+	'lastCalledWith',
+	'toHaveBeenCalledTimes',
+	'toBeCalledTimes',
+	'toHaveBeenCalledOnce',
+];
+
+/**
+ * Global slot holding the marking function. Vitest's chai outlives module re-evaluation
+ * between test files, so the matchers are overwritten once and always delegate to the
+ * most recently enabled copy of this module.
+ */
+const markAssertedSlot = Symbol.for('vitest-create-mock.markAsserted');
+
+const markAsserted: MarkAsserted = (received, matcher, args) => {
+	const state = getMockState(received);
+	if (!state?.fn) {
+		return;
+	}
+
+	const own = getFunctionInteractions(state);
+	let asserted: Interaction[] = [];
+
+	switch (matcher) {
+		case 'toHaveBeenNthCalledWith':
+		case 'nthCalledWith': {
+			const [nth, ...expected] = args;
+			const interaction = own[(nth as number) - 1];
+			if (interaction && matches(expected, interaction.args)) {
+				asserted = [interaction];
+			}
+			break;
+		}
+		case 'toHaveBeenLastCalledWith':
+		case 'lastCalledWith': {
+			const interaction = own.at(-1);
+			if (interaction && matches(args, interaction.args)) {
+				asserted = [interaction];
+			}
+			break;
+		}
+		case 'toHaveBeenCalledTimes':
+		case 'toBeCalledTimes':
+			asserted = own.length === args[0] ? own : [];
+			break;
+		case 'toHaveBeenCalledOnce':
+			asserted = own.length === 1 ? own : [];
+			break;
+		default:
+			asserted = own.filter((interaction) => matches(args, interaction.args));
+	}
+
+	for (const interaction of asserted) {
+		interaction.verified = true;
+	}
+};
+
+const globals = globalThis as { [markAssertedSlot]?: MarkAsserted };
+
+let callVerificationEnabled = false;
+
+/**
+ * Makes passing spy assertions such as `toHaveBeenCalledWith` mark the calls they pin
+ * down as verified, for verifyNoMoreInteractions. This patches Vitest's assertions, so
+ * it is opt-in: the setup entry enables it, otherwise call it once per test file.
+ *
+ * @example
+ * ```typescript
+ * enableCallVerification();
+ *
+ * it('only saves the user', async () => {
+ *   await service.register(user);
+ *
+ *   expect(repo.save).toHaveBeenCalledWith(user);
+ *   verifyNoMoreInteractions(repo);
+ * });
+ * ```
+ */
+export const enableCallVerification = (): void => {
+	if (!globals[markAssertedSlot]) {
+		for (const matcher of verifyingMatchers) {
+			chai.util.overwriteMethod(
+				chai.Assertion.prototype,
+				matcher,
+				(original: (...args: unknown[]) => unknown) =>
+					function (this: object, ...args: unknown[]) {
+						const result = original.apply(this, args);
+
+						if (!chai.util.flag(this, 'negate')) {
+							globals[markAssertedSlot]?.(
+								chai.util.flag(this, 'object'),
+								matcher,
+								args,
+							);
+						}
+
+						return result;
+					},
+			);
+		}
+	}
+
+	globals[markAssertedSlot] = markAsserted;
+	callVerificationEnabled = true;
+};
+
+/**
+ * Marks every call recorded so far on the given mocks (including nested auto-mocks)
+ * as verified, so that verifyNoMoreInteractions ignores them.
+ *
+ * @param mocks - Mocks or mocked functions whose calls are accounted for
+ */
+export const markVerified = (...mocks: unknown[]): void => {
+	for (const interaction of mocks.flatMap(collectInteractions)) {
+		interaction.verified = true;
+	}
+};
+
+/**
+ * Asserts that every call made to the given mocks, anywhere in their trees, has been
+ * verified. Calls are verified by `verifyInOrder`, `markVerified` and, once
+ * enableCallVerification ran, by passing spy assertions such as
+ * `toHaveBeenCalledWith`, `toHaveBeenNthCalledWith` or `toHaveBeenCalledTimes`.
+ *
+ * @param mocks - Mocks or mocked functions to check
+ *
+ * @example
+ * ```typescript
+ * await service.register(user);
+ *
+ * expect(repo.save).toHaveBeenCalledWith(user);
+ * verifyNoMoreInteractions(repo); // throws if anything else on repo was called
+ * ```
+ */
+export const verifyNoMoreInteractions = (...mocks: unknown[]): void => {
+	const unverified = mocks
+		.flatMap(collectInteractions)
+		.filter((interaction) => !interaction.verified);
+
+	if (unverified.length > 0) {
+		throw new Error(
+			[
+				`Expected no more interactions, but found ${plural(unverified.length, 'unverified call')}:`,
+				...formatInteractions(unverified),
+				...(callVerificationEnabled
+					? []
+					: [
+							'Spy assertions only verify calls after enableCallVerification(), which the vitest-create-mock/setup entry calls',
+						]),
+			].join('\n'),
+		);
+	}
+};
+
+/**
+ * Asserts that no function anywhere in the given mocks' trees has been called.
+ *
+ * @param mocks - Mocks or mocked functions to check
+ */
+export const verifyZeroInteractions = (...mocks: unknown[]): void => {
+	const interactions = mocks.flatMap(collectInteractions);
+
+	if (interactions.length > 0) {
+		throw new Error(
+			[
+				`Expected zero interactions, but found ${plural(interactions.length, 'call')}:`,
+				...formatInteractions(interactions),
+			].join('\n'),
+		);
+	}
+};
@@ -0,0 +1,216 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { getInteractions } from './journal';
+import { resetMock, sealMock } from './lifecycle';
+import { createMock } from './mocks';
+import { when } from './when';
+
+interface Request {
+	url: string;
+	headers: Record<string, string>;
+}
+
+interface HttpArgumentsHost {
+	getRequest: () => Request;
+	getResponse: () => { statusCode: number };
+}
+
+interface ExecutionContext {
+	getType: () => string;
+	switchToHttp: () => HttpArgumentsHost;
+}
+
+interface User {
+	id: number;
+	name: string;
+}
+
+interface UserService {
+	findById: (id: number) => Promise<User | null>;
+	repository: (name: string) => { count: () => number };
+	config: {
+		retries: number;
+		url: Promise<string>;
+	};
+}
+
+const request: Request = { url: '/users', headers: {} };
+
+describe('when', () => {
+	it('stubs the end of a call chain', () => {
+		const ctx = createMock<ExecutionContext>();
+
+		when(ctx)
+			.call((c) => c.switchToHttp().getRequest())
+			.thenReturn(request);
+
+		expect(ctx.switchToHttp().getRequest()).toBe(request);
+	});
+
+	it('does not call the mock while recording the chain', () => {
+		const ctx = createMock<ExecutionContext>({}, { name: 'ctx' });
+
+		when(ctx)
+			.call((c) => c.switchToHttp().getRequest())
+			.thenReturn(request);
+
+		expect(ctx.switchToHttp).not.toHaveBeenCalled();
+		expect(getInteractions(ctx)).toEqual([]);
+	});
+
+	it('works on strict mocks', () => {
+		const ctx = createMock<ExecutionContext>({}, { strict: true });
+
+		when(ctx)
+			.call((c) => c.switchToHttp().getRequest())
+			.thenReturn(request);
+
+		expect(ctx.switchToHttp().getRequest()).toBe(request);
+		expect(() => ctx.switchToHttp().getResponse()).toThrow(
+			'Method mock.switchToHttp().getResponse was called without being explicitly stubbed',
+		);
+	});
+
+	it('keeps other stubs along the chain', () => {
+		const ctx = createMock<ExecutionContext>();
+
+		when(ctx)
+			.call((c) => c.switchToHttp().getRequest())
+			.thenReturn(request);
+		when(ctx)
+			.call((c) => c.switchToHttp().getResponse())
+			.thenReturn({ statusCode: 201 });
+
+		expect(ctx.switchToHttp().getRequest()).toBe(request);
+		expect(ctx.switchToHttp().getResponse()).toEqual({ statusCode: 201 });
+	});
+
+	it('matches the arguments of calls', async () => {
+		const users = createMock<UserService>();
+		const user = { id: 1, name: 'Ada' };
+
+		when(users)
+			.call((u) => u.findById(1))
+			.thenResolve(user);
+		when(users)
+			.call((u) => u.repository('orders').count())
+			.thenReturn(3);
+		when(users)
+			.call((u) => u.repository(expect.stringMatching(/^user/)).count())
+			.thenReturn(5);
+
+		await expect(users.findById(1)).resolves.toBe(user);
+		expect(users.repository('orders').count()).toBe(3);
+		expect(users.repository('users').count()).toBe(5);
+		expect(users.repository('orders')).not.toBe(users.repository('users'));
+	});
+
+	it('stubs rejections and errors', async () => {
+		const users = createMock<UserService>();
+		const error = new Error('offline');
+
+		when(users)
+			.call((u) => u.findById(1))
+			.thenReject(error);
+		when(users)
+			.call((u) => u.repository('users').count())
+			.thenThrow(error);
+
+		await expect(users.findById(1)).rejects.toBe(error);
+		expect(() => users.repository('users').count()).toThrow(error);
+	});
+
+	it('stubs properties', async () => {
+		const users = createMock<UserService>({}, { strict: true });
+
+		when(users)
+			.call((u) => u.config.retries)
+			.thenReturn(3);
+		when(users)
+			.call((u) => u.config.url)
+			.thenResolve('postgres://localhost');
+
+		expect(users.config.retries).toBe(3);
+		await expect(users.config.url).resolves.toBe('postgres://localhost');
+	});
+
+	it('stubs properties to throw on read', () => {
+		const users = createMock<UserService>();
+
+		when(users)
+			.call((u) => u.config.retries)
+			.thenThrow(new Error('not loaded'));
+
+		expect(() => users.config.retries).toThrow('not loaded');
+	});
+
+	it('can be stubbed again after a reset', () => {
+		const users = createMock<UserService>();
+
+		when(users)
+			.call((u) => u.repository('users').count())
+			.thenReturn(1);
+		resetMock(users);
+		when(users)
+			.call((u) => u.repository('users').count())
+			.thenReturn(2);
+
+		expect(users.repository('users').count()).toBe(2);
+	});
+
+	it('refuses to generate members of sealed mocks', () => {
+		const ctx = sealMock(createMock<ExecutionContext>({}, { name: 'ctx' }));
+
+		expect(() =>
+			when(ctx)
+				.call((c) => c.switchToHttp().getRequest())
+				.thenReturn(request),
+		).toThrow('Cannot stub ctx.switchToHttp after the mock was sealed');
+	});
+
+	it('refuses chains through values that are not mocks', () => {
+		const users = createMock<UserService>(
+			{ config: { retries: 1 } },
+			{ name: 'users' },
+		);
+
+		expect(() =>
+			when(users)
+				.call((u) => u.config.retries)
+				.thenReturn(3),
+		).toThrow('Cannot stub users.config.retries: users.config is not a mock');
+	});
+
+	it('refuses callbacks that do not return a member of the mock', () => {
+		const ctx = createMock<ExecutionContext>();
+
+		expect(() => when(ctx).call(() => request)).toThrow(
+			'when().call expects a callback returning a member or call of the mock',
+		);
+		expect(() => when(ctx).call((c) => c)).toThrow(
+			'when().call expects a callback returning a member or call of the mock',
+		);
+	});
+
+	it('refuses values that are not mocks', () => {
+		expect(() => when({} as never)).toThrow(
+			'when expects a mock created by createMock, received object',
+		);
+	});
+
+	it('checks stubbed values against the return type', () => {
+		const ctx = createMock<ExecutionContext>();
+		const users = createMock<UserService>();
+
+		expectTypeOf(
+			when(ctx).call((c) => c.switchToHttp().getRequest()).thenReturn,
+		)
+			.parameter(0)
+			.toEqualTypeOf<Request>();
+		expectTypeOf(when(users).call((u) => u.findById(1)).thenResolve)
+			.parameter(0)
+			.toEqualTypeOf<User | null>();
+		expectTypeOf(when(users).call((u) => u.config.retries).thenReturn)
+			.parameter(0)
+			.toEqualTypeOf<number>();
+	});
+});
@@ -0,0 +1,215 @@
+import type { Mock } from 'vitest';
+import type { CalledWithStub } from './called-with';
+import { formatCall } from './format';
+import {
+	createDetachedChild,
+	type DeepMocked,
+	resolveMockChild,
+} from './mocks';
+import { getMockState, type MockState } from './state';
+
+/**
+ * Configures what the end of a call chain does, see when.
+ */
+export type WhenStub<R> = {
+	/** Makes the chain return `value` */
+	thenReturn: (value: R) => void;
+	/** Makes the chain return a promise resolving to `value` */
+	thenResolve: (value: Awaited<R>) => void;
+	/** Makes the chain return a promise rejecting with `error` */
+	thenReject: (error: unknown) => void;
+	/** Makes the chain throw `error` */
+	thenThrow: (error: unknown) => void;
+};
+
+type Segment = { key: PropertyKey } | { args: unknown[] };
+
+type StubbableFunction = Mock & {
+	calledWith: (
+		...args: unknown[]
+	) => CalledWithStub<(...args: unknown[]) => unknown, unknown>;
+};
+
+/**
+ * Paths recorded by recorder proxies.
+ */
+const recordedPaths = new WeakMap<object, Segment[]>();
+
+/**
+ * Creates a stand-in for the mock that records the members read and the calls made
+ * on it, and nothing else: the mock itself is never touched.
+ */
+const createRecorder = (path: Segment[]): object => {
+	const recorder = new Proxy(() => {}, {
+		get: (_, key) => createRecorder([...path, { key }]),
+		apply: (_, __, args) => createRecorder([...path, { args }]),
+	});
+	recordedPaths.set(recorder, path);
+
+	return recorder;
+};
+
+const describePath = (name: string, path: Segment[]): string =>
+	path.reduce(
+		(described, segment) =>
+			'key' in segment
+				? `${described}.${segment.key.toString()}`
+				: formatCall(described, segment.args),
+		name,
+	);
+
+/**
+ * Returns the mock a call on `node` resolves to, stubbing the call to return it. A
+ * call without arguments stands for any call, one with arguments for matching calls.
+ */
+const resolveCall = (node: StubbableFunction, args: unknown[]): object => {
+	const state = getMockState(node) as MockState;
+	const key = formatCall('', args);
+	state.stubbedResults ??= new Map();
+	let child = state.stubbedResults.get(key);
+
+	if (!child) {
+		// Calls without arguments share the auto-generated result when there is one
+		const generated =
+			args.length === 0 && !state.fn?.getMockImplementation()
+				? resolveMockChild(node, '__apply')
+				: undefined;
+
+		child = getMockState(generated)
+			? (generated as object)
+			: createDetachedChild(node, formatCall(state.name, args));
+		state.stubbedResults.set(key, child);
+	}
+
+	if (args.length === 0) {
+		node.mockReturnValue(child);
+	} else {
+		node.calledWith(...args).mockReturnValue(child);
+	}
+
+	return child;
+};
+
+/**
+ * Starts stubbing a call chain of a deep mock, with the return type checked against
+ * the mocked type. The chain is recorded on a stand-in, so writing it neither calls
+ * nor reads the mock; stubbing then generates the members along the chain, even in
+ * strict mode.
+ *
+ * A call without arguments in the chain stands for any call. A call with arguments
+ * only stands for calls with matching arguments (asymmetric matchers work), as with
+ * `calledWith`.
+ *
+ * @param mock - A mock created by `createMock`, or any mock inside one
+ * @returns An object whose `call` takes the chain to stub
+ *
+ * @example
+ * ```typescript
+ * const ctx = createMock<ExecutionContext>({}, { strict: true });
+ *
+ * when(ctx).call((c) => c.switchToHttp().getRequest()).thenReturn(request);
+ * when(users).call((u) => u.findById(42)).thenResolve(user);
+ * when(users).call((u) => u.findById(expect.any(Number))).thenReject(new NotFound());
+ * when(config).call((c) => c.database.url).thenReturn('postgres://localhost');
+ *
+ * // @ts-expect-error getRequest() returns a Request
+ * when(ctx).call((c) => c.switchToHttp().getRequest()).thenReturn('nope');
+ * ```
+ */
+export const when = <T>(mock: DeepMocked<T>) => {
+	const root = getMockState(mock);
+
+	if (!root) {
+		throw new TypeError(
+			`when expects a mock created by createMock, received ${typeof mock}`,
+		);
+	}
+
+	return {
+		/**
+		 * @param chain - Reads members and calls methods of the mock, e.g.
+		 * `(c) => c.switchToHttp().getRequest()`
+		 */
+		call: <R>(chain: (mock: T) => R): WhenStub<R> => {
+			const path = recordedPaths.get(chain(createRecorder([]) as T) as object);
+
+			if (!path?.length) {
+				throw new TypeError(
+					'when().call expects a callback returning a member or call of the mock, e.g. (mock) => mock.getUser(1)',
+				);
+			}
+
+			// Members and calls along the chain must be mocks (or mocked functions) to
+			// be stubbed
+			const requireMock = (node: unknown, index: number) => {
+				const state = getMockState(node);
+
+				if (!state || ('args' in path[index] && !state.callable)) {
+					throw new TypeError(
+						`Cannot stub ${describePath(root.name, path)}: ${describePath(root.name, path.slice(0, index))} is not ${'args' in path[index] ? 'a mocked function' : 'a mock'}`,
+					);
+				}
+
+				return node as StubbableFunction;
+			};
+
+			let node: unknown = mock;
+
+			for (const [index, segment] of path.slice(0, -1).entries()) {
+				const parent = requireMock(node, index);
+
+				node =
+					'key' in segment
+						? resolveMockChild(parent, segment.key)
+						: resolveCall(parent, segment.args);
+			}
+
+			const last = path[path.length - 1];
+			const target = requireMock(node, path.length - 1);
+
+			if ('key' in last) {
+				// Promises and errors are created on every read, so that a rejection
+				// nobody reads is never left unhandled
+				const stubProperty = (read: () => unknown) => {
+					Object.defineProperty(target, last.key, {
+						configurable: true,
+						enumerable: true,
+						get: read,
+					});
+				};
+
+				return {
+					thenReturn: (value) => {
+						Reflect.set(target, last.key, value);
+					},
+					thenResolve: (value) => stubProperty(() => Promise.resolve(value)),
+					thenReject: (error) => stubProperty(() => Promise.reject(error)),
+					thenThrow: (error) =>
+						stubProperty(() => {
+							throw error;
+						}),
+				};
+			}
+
+			const stub =
+				last.args.length === 0 ? target : target.calledWith(...last.args);
+
+			return {
+				thenReturn: (value) => {
+					stub.mockReturnValue(value);
+				},
+				thenResolve: (value) => {
+					stub.mockResolvedValue(value);
+				},
+				thenReject: (error) => {
+					stub.mockRejectedValue(error);
+				},
+				thenThrow: (error) => {
+					stub.mockImplementation(() => {
+						throw error;
+					});
+				},
+			};
+		},
+	};
+};
@@ -2,7 +2,12 @@ import { defineConfig } from 'tsdown';
 
 export default defineConfig([
 	{
-		entry: ['./src/index.ts'],
+		entry: [
+			'./src/index.ts',
+			'./src/matchers.ts',
+			'./src/recording.ts',
+			'./src/setup.ts',
+		],
 		platform: 'neutral',
 		dts: true,
 	},
@@ -1,3 +1,11 @@
 import { defineConfig } from 'vitest/config';
 
-export default defineConfig({});
+export default defineConfig({
+	test: {
+		// smoke/ runs against the build, see vitest.smoke.config.ts
+		include: ['src/**/*.test.ts'],
+		// Lets the benchmarks measure the heap retained by mocks (see src/mocks.bench.ts)
+		// and the tests check that mocks can be garbage-collected
+		execArgv: ['--expose-gc'],
+	},
+});
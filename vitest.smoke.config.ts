@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+// Runs smoke/ against the built package, loaded through its
+// package.json exports the way a project that installed it would
+export default defineConfig({
+	test: {
+		include: ['smoke/**/*.test.ts'],
+		setupFiles: ['vitest-create-mock/setup'],
+		server: {
+			deps: {
+				// Installed packages are run by Node rather than transformed by Vite
+				external: [/\/dist\//],
+			},
+		},
+	},
+});